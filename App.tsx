@@ -1,64 +1,112 @@
-import React, { useState, useCallback, useRef, useMemo } from 'react';
-import { GoogleGenAI } from '@google/genai';
-import { UploadIcon, FileAudioIcon, XCircleIcon, ClipboardIcon, CheckIcon } from './components/Icons';
+import React, { useState, useCallback, useRef, useMemo, useEffect } from 'react';
+import { UploadIcon, FileAudioIcon, FileVideoIcon, XCircleIcon, ClipboardIcon, CheckIcon } from './components/Icons';
+import ExportButtons from './components/ExportButtons';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import LibrarySidebar from './components/LibrarySidebar';
+import TemplateManager from './components/TemplateManager';
+import TranscriptViewer, { TranscriptViewerHandle } from './components/TranscriptViewer';
+import TranscriptEditorTools from './components/TranscriptEditorTools';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import SpeakerPanel from './components/SpeakerPanel';
+import ChatPanel from './components/ChatPanel';
+import AudioPreprocessPanel, { PreprocessSummary } from './components/AudioPreprocessPanel';
+import UsagePanel from './components/UsagePanel';
+import LessonEditor from './components/LessonEditor';
+import QuizPanel from './components/QuizPanel';
+import ApiKeyDialog from './components/ApiKeyDialog';
+import TranslationPanel, { TranslationExportFormat } from './components/TranslationPanel';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { TranscriptSegment, ChunkState, LibrarySession, GeneratedLesson, PromptTemplate, GlossaryEntry, BatchJob, Quiz, TranscriptTranslation } from './types';
+import { TRANSCRIPTION_CONCURRENCY } from './constants';
+import { segmentsToText, formatTimestamp } from './utils/transcript';
+import { runWithConcurrency } from './utils/concurrency';
+import { withRetry } from './utils/retry';
+import { PreparedAudio, prepareAudio, transcribeChunk, mergeTranscribedChunks, transcribeFile } from './services/transcriptionPipeline';
+import { buildTranscriptionPrompt, getVocabulary } from './services/transcriptionService';
+import { ProviderSettings, TokenUsage, createProvider, loadProviderSettings, saveProviderSettings } from './services/providers';
+import { listSessions, saveSession, deleteSession, createSession } from './services/libraryStore';
+import { buildLessonRequest, buildSectionRequest, createLesson } from './services/lessonService';
+import { buildQuizRequest, createQuiz, parseQuizResponse } from './services/quizService';
+import { createTranslation, estimateTranslationUsage, translateSegments, withCurrentSpeakers } from './services/translationService';
+import { buildChatRequest, createChatMessage, createThread, upsertThread } from './services/chatService';
+import { loadTemplates, saveTemplates, loadSelectedTemplateId, saveSelectedTemplateId, loadLessonLanguage, saveLessonLanguage } from './services/templateStore';
+import { applyGlossary, replaceInSegments, updateSegmentText } from './utils/findReplace';
+import { listSpeakers, renameSpeaker } from './utils/speakers';
+import { DEFAULT_PREPROCESS_OPTIONS, PreprocessOptions, TimeRange, estimateUploadSize } from './utils/preprocess';
+import { AppError, describeError, isCancellation } from './services/errors';
+import { loadGlossary, saveGlossary } from './services/glossaryStore';
+import { StoredApiKey, clearGeminiApiKey, loadGeminiApiKey, saveGeminiApiKey } from './services/apiKeyStore';
+import { useUndoableState } from './hooks/useUndoableState';
+import { useBatchQueue, BatchJobContext } from './hooks/useBatchQueue';
+import { useUsageLedger } from './hooks/useUsageLedger';
+import { collectDroppedFiles, isMediaFile, isVideoFile, sortFiles } from './utils/files';
+import { ExportFormat, QuizExportFormat, SessionExportData, exportTranscript, exportLesson, exportQuiz } from './utils/export';
+import { composeLesson, parseLessonSections, replaceSectionBody, stripLeadingHeading } from './utils/lessonSections';
+import { downloadFile } from './utils/download';
+import { readMediaDuration } from './utils/audio';
+import { planChunks } from './utils/chunking';
+import { createId } from './utils/id';
+import { EXPECTED_OUTPUT_TOKENS, computeCost, estimateGenerationUsage, estimateTranscriptionUsage, formatCost, formatUsageEstimate } from './utils/usage';
+import { CONTENT_LANGUAGES, LOCALES, Locale, languageName } from './i18n';
+import { useI18n } from './i18n/I18nProvider';
 
 
-type Status = 'idle' | 'uploading' | 'transcribing' | 'error';
+type Status = 'idle' | 'decoding' | 'transcribing' | 'error';
 type PromptStatus = 'idle' | 'loading' | 'error';
+type AssistantTab = 'lesson' | 'chat';
+type LessonExportFormat = 'md' | 'txt' | 'json';
 
-const LESSON_GENERATION_SYSTEM_PROMPT = `**Role:** You are acting as a highly experienced Artificial Intelligence (AI) and Software Testing Expert who has vast knowledge in Generative AI tools and their application in the software development lifecycle.
+const TRANSCRIPT_EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+    { format: 'srt', label: 'SRT' },
+    { format: 'vtt', label: 'VTT' },
+    { format: 'txt', label: 'TXT' },
+    { format: 'md', label: 'MD' },
+    { format: 'json', label: 'JSON' },
+];
 
-**Goal:** Your task is to transform the provided video transcript/text into a clear, comprehensive, and engaging lesson content for an educational course.
-
-**Instruction Guidelines:**
-1.  **Maintain Expert Tone:** Write the content in an **accessible, clear, and professional** tone, suitable for a course covering technical subjects related to AI and testing.
-2.  **Adherence to Source:** The core content must be **strictly based on the information provided in the input text/transcript**. Do not invent main topics.
-3.  **Enhancement for Clarity:** To enhance understanding and provide practical context, you are **encouraged to introduce short, relevant examples, analogies, or brief supplementary explanations** that support and elaborate on the points made in the transcript. These additions must be concise and directly related to the topic.
-4.  **Language Output:** You must deliver the final lesson content **entirely in Turkish (Türkçe)**, ensuring the translation is natural and high-quality.
-5.  **Target Audience:** The content is intended for professionals and students seeking to understand how to effectively integrate AI into their testing and development processes.
-
-**Structure Template for Output:**
-The final Turkish output must follow this structured template for every lesson:
-
-### 🇹🇷 Ders İçeriği Başlığı (Lesson Content Title)
-
-**I. Giriş ve Konuya Genel Bakış (Introduction and Overview)**
-* Bu dersin temel amacı ve hedefleri.
-* Konunun genel AI/Test sürecindeki yeri.
-
-**II. Temel Kavramlar ve Tanımlar (Core Concepts and Definitions)**
-* Konunun anahtar terimlerinin net ve anlaşılır tanımları.
-* Transkriptteki ana fikirlerin özetlenmesi.
-
-**III. Detaylı Anlatım ve Uygulamalar (Detailed Explanation and Applications)**
-* Transkriptteki adımların veya detaylı açıklamaların madde madde veya paragraflar halinde sunulması.
-* **[Kısa Örnek/Analoji Eklenecek Bölüm]** (Insert short, relevant example or analogy here to improve comprehension.)
-
-**IV. Uzman Görüşü ve Pratik İpuçları (Expert Insight and Practical Tips)**
-* Konuyla ilgili uzmanın deneyimlerinden damıtılmış kısa bir ipucu veya dikkat edilmesi gereken bir nokta.
-
-**V. Özet ve Sonuç (Summary and Conclusion)**
-* Dersin en önemli çıkarımlarının 2-3 madde ile özetlenmesi.`;
-
-
-const formatFileSize = (bytes: number, decimals = 2) => {
-    if (bytes === 0) return '0 Bytes';
-    const k = 1024;
-    const dm = decimals < 0 ? 0 : decimals;
-    const sizes = ['Bytes', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(dm)) + ' ' + sizes[i];
-}
+const LESSON_EXPORT_FORMATS: { format: LessonExportFormat; label: string }[] = [
+    { format: 'md', label: 'MD' },
+    { format: 'txt', label: 'TXT' },
+    { format: 'json', label: 'JSON' },
+];
 
 const App: React.FC = () => {
+    const { t, tp, locale, setLocale, formatSize } = useI18n();
     const [selectedFile, setSelectedFile] = useState<File | null>(null);
-    const [transcription, setTranscription] = useState<string>('');
+    // Transcript edits are undoable; loading a new transcript resets the history.
+    const {
+        value: segments,
+        set: editSegments,
+        reset: setSegments,
+        undo: undoEdit,
+        redo: redoEdit,
+        canUndo,
+        canRedo,
+    } = useUndoableState<TranscriptSegment[]>([]);
+    const [isEditing, setIsEditing] = useState<boolean>(false);
+    const [showSpeakers, setShowSpeakers] = useState<boolean>(false);
+    const [glossary, setGlossary] = useState<GlossaryEntry[]>(loadGlossary);
     const [status, setStatus] = useState<Status>('idle');
     const [error, setError] = useState<string | null>(null);
     const [copied, setCopied] = useState<boolean>(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const folderInputRef = useRef<HTMLInputElement>(null);
+
+    // State for chunked transcription. The decoded audio is kept so failed chunks can be retried.
+    const [chunks, setChunks] = useState<ChunkState[]>([]);
+    const chunksRef = useRef<ChunkState[]>([]);
+    const audioBufferRef = useRef<AudioBuffer | null>(null);
+    const keptRangesRef = useRef<TimeRange[] | null>(null);
+    const transcriptionAbortRef = useRef<AbortController | null>(null);
+    // The id of the session a new transcription will be saved as, so its usage can be attributed to it.
+    const pendingSessionIdRef = useRef<string>(createId());
+    const [retryNotice, setRetryNotice] = useState<string | null>(null);
+
+    // Optional trimming and silence removal before upload.
+    const [preprocessEnabled, setPreprocessEnabled] = useState<boolean>(false);
+    const [preprocessOptions, setPreprocessOptions] = useState<PreprocessOptions>(DEFAULT_PREPROCESS_OPTIONS);
+    const [preprocessSummary, setPreprocessSummary] = useState<PreprocessSummary | null>(null);
 
     // State for follow-up prompts
     const [prompt, setPrompt] = useState<string>('');
@@ -66,48 +114,317 @@ const App: React.FC = () => {
     const [promptStatus, setPromptStatus] = useState<PromptStatus>('idle');
     const [promptError, setPromptError] = useState<string | null>(null);
     const [promptCopied, setPromptCopied] = useState<boolean>(false);
+    const lessonAbortRef = useRef<AbortController | null>(null);
+    // The saved lesson being shown, so that section edits can be written back to it.
+    const [currentLessonId, setCurrentLessonId] = useState<string | null>(null);
+    const [regeneratingSection, setRegeneratingSection] = useState<number | null>(null);
+
+    // State for the quiz
+    const [quiz, setQuiz] = useState<Quiz | null>(null);
+    const [quizQuestionCount, setQuizQuestionCount] = useState<number>(10);
+    const [quizLoading, setQuizLoading] = useState<boolean>(false);
+    const [quizError, setQuizError] = useState<string | null>(null);
+    const quizAbortRef = useRef<AbortController | null>(null);
+    const [assistantTab, setAssistantTab] = useState<AssistantTab>('lesson');
+
+    // State for questions about the transcript. Threads live in the active library session.
+    const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+    const [chatDraft, setChatDraft] = useState<string>('');
+    const [chatLoading, setChatLoading] = useState<boolean>(false);
+    const [chatError, setChatError] = useState<string | null>(null);
+    const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+    const [streamingAnswer, setStreamingAnswer] = useState<string>('');
+    const chatAbortRef = useRef<AbortController | null>(null);
+    const transcriptViewerRef = useRef<TranscriptViewerHandle>(null);
+
+    // State for prompt templates
+    const [templates, setTemplates] = useState<PromptTemplate[]>(loadTemplates);
+    const [selectedTemplateId, setSelectedTemplateId] = useState<string>(loadSelectedTemplateId);
+    const [showTemplateManager, setShowTemplateManager] = useState<boolean>(false);
+    const selectedTemplate = templates.find(template => template.id === selectedTemplateId) ?? templates[0];
+    // Lessons and quizzes are written in this language ('' = the template's own), whatever the UI language.
+    const [lessonLanguage, setLessonLanguage] = useState<string>(loadLessonLanguage);
+    const lessonLanguageName = lessonLanguage ? languageName(lessonLanguage, lessonLanguage) : undefined;
+
+    // State for the translation of the transcript
+    const [storedTranslation, setStoredTranslation] = useState<TranscriptTranslation | null>(null);
+    const [translationLanguage, setTranslationLanguage] = useState<string>(() => lessonLanguage || locale);
+    const [translationLoading, setTranslationLoading] = useState<boolean>(false);
+    const [translationProgress, setTranslationProgress] = useState<{ done: number; total: number } | null>(null);
+    const [translationError, setTranslationError] = useState<string | null>(null);
+    const translationAbortRef = useRef<AbortController | null>(null);
+    // Lessons and quizzes can be written from the translation instead of the original transcript.
+    const [lessonSource, setLessonSource] = useState<'original' | 'translation'>('original');
+
+    // State for the persistent library. The ref mirrors the active session for async callbacks.
+    const [librarySessions, setLibrarySessions] = useState<LibrarySession[]>([]);
+    const [activeSession, setActiveSession] = useState<LibrarySession | null>(null);
+    const activeSessionRef = useRef<LibrarySession | null>(null);
+
+    const transcription = useMemo(() => segmentsToText(segments), [segments]);
+    // Speakers renamed after translating are shown, exported and used for lessons with their new names.
+    const translation = useMemo(
+        () => storedTranslation && withCurrentSpeakers(storedTranslation, segments),
+        [storedTranslation, segments],
+    );
+    const translatedTranscription = useMemo(() => translation ? segmentsToText(translation.segments) : '', [translation]);
+    const lessonTranscript = lessonSource === 'translation' && translatedTranscription ? translatedTranscription : transcription;
+    const speakerCount = useMemo(() => listSpeakers(segments).length, [segments]);
 
-    const ai = useMemo(() => {
-        const apiKey = process.env.API_KEY;
-        if (!apiKey) return null;
-        return new GoogleGenAI({ apiKey });
+    const [mediaUrl, setMediaUrl] = useState<string | null>(null);
+    useEffect(() => {
+        if (!selectedFile) {
+            setMediaUrl(null);
+            return;
+        }
+        const url = URL.createObjectURL(selectedFile);
+        setMediaUrl(url);
+        return () => URL.revokeObjectURL(url);
+    }, [selectedFile]);
+
+    const [mediaDuration, setMediaDuration] = useState<number | null>(null);
+    useEffect(() => {
+        setMediaDuration(null);
+        if (!selectedFile) return;
+        let cancelled = false;
+        readMediaDuration(selectedFile)
+            .then(duration => { if (!cancelled) setMediaDuration(duration); })
+            .catch(err => console.warn('Could not read the media duration.', err));
+        return () => { cancelled = true; };
+    }, [selectedFile]);
+
+    // The key is entered at runtime and never bundled; a proxy server can hold it instead.
+    const [storedGeminiKey, setStoredGeminiKey] = useState<StoredApiKey | null>(loadGeminiApiKey);
+    const [showApiKeyDialog, setShowApiKeyDialog] = useState<boolean>(false);
+    const geminiApiKey = storedGeminiKey?.key;
+    const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => loadProviderSettings(!!geminiApiKey));
+    const provider = useMemo(() => createProvider(providerSettings, geminiApiKey), [providerSettings, geminiApiKey]);
+    const providerUnavailableMessage = providerSettings.providerId === 'gemini'
+        ? t('app.geminiKeyMissing')
+        : t('app.providerUrlMissing');
+
+    const handleProviderSettingsChange = (settings: ProviderSettings) => {
+        setProviderSettings(settings);
+        saveProviderSettings(settings);
+    };
+
+    const handleSaveGeminiKey = (key: StoredApiKey) => {
+        saveGeminiApiKey(key);
+        setStoredGeminiKey(key);
+    };
+
+    const handleRemoveGeminiKey = () => {
+        clearGeminiApiKey();
+        setStoredGeminiKey(null);
+    };
+
+    const usage = useUsageLedger();
+
+    /** Asks before starting a job whose estimated cost would take the total spending over the budget. */
+    const confirmBudget = useCallback((estimate: TokenUsage | null): boolean => {
+        if (usage.budget === null || !estimate) return true;
+        const cost = computeCost(estimate, usage.prices);
+        const total = usage.totals.cost + (cost ?? 0);
+        if (cost === null || total <= usage.budget) return true;
+        return window.confirm(t('app.confirmBudget', {
+            cost: formatCost(cost),
+            total: formatCost(total),
+            budget: formatCost(usage.budget),
+        }));
+    }, [usage.budget, usage.prices, usage.totals.cost, t]);
+
+    /** Estimates transcribing `seconds` of audio with the current model, language and glossary. */
+    const estimateTranscription = useCallback((seconds: number) =>
+        estimateTranscriptionUsage(
+            seconds,
+            providerSettings.transcriptionModel,
+            buildTranscriptionPrompt(getVocabulary(glossary), providerSettings.transcriptionLanguage || undefined),
+            planChunks(seconds).length,
+        ), [providerSettings.transcriptionModel, providerSettings.transcriptionLanguage, glossary]);
+
+    // Pre-flight estimates, shown next to the buttons that start the work.
+    const transcriptionSeconds = preprocessEnabled && preprocessSummary ? preprocessSummary.keptDuration : mediaDuration;
+    const transcriptionEstimate = useMemo(
+        () => transcriptionSeconds ? estimateTranscription(transcriptionSeconds) : null,
+        [transcriptionSeconds, estimateTranscription],
+    );
+    const lessonEstimate = useMemo(
+        () => lessonTranscript
+            ? estimateGenerationUsage(
+                buildLessonRequest(selectedTemplate, lessonTranscript, prompt, providerSettings.generationModel, lessonLanguageName),
+                EXPECTED_OUTPUT_TOKENS.lesson,
+            )
+            : null,
+        [lessonTranscript, selectedTemplate, prompt, providerSettings.generationModel, lessonLanguageName],
+    );
+    const translationEstimate = useMemo(
+        () => segments.length > 0
+            ? estimateTranslationUsage(segments, languageName(translationLanguage, translationLanguage), providerSettings.generationModel)
+            : null,
+        [segments, translationLanguage, providerSettings.generationModel],
+    );
+
+    useEffect(() => {
+        listSessions()
+            .then(setLibrarySessions)
+            .catch(err => console.error('Could not load the library.', err));
+    }, []);
+
+    const selectSession = useCallback((session: LibrarySession | null) => {
+        activeSessionRef.current = session;
+        setActiveSession(session);
     }, []);
 
+    /** Saves a session to IndexedDB and the sidebar list. Failures only affect persistence. */
+    const addToLibrary = useCallback(async (session: LibrarySession) => {
+        setLibrarySessions(prev => [session, ...prev.filter(item => item.id !== session.id)]);
+        try {
+            await saveSession(session);
+        } catch (err) {
+            console.error('Could not save the session to the library.', err);
+        }
+    }, []);
+
+    /** Saves a session and makes it the active one. */
+    const persistSession = useCallback(async (session: LibrarySession) => {
+        selectSession(session);
+        await addToLibrary(session);
+    }, [selectSession, addToLibrary]);
+
+    const handleTemplatesChange = (updated: PromptTemplate[]) => {
+        setTemplates(updated);
+        saveTemplates(updated);
+    };
+
+    const handleTemplateSelect = (id: string) => {
+        setSelectedTemplateId(id);
+        saveSelectedTemplateId(id);
+    };
+
+    const handleLessonLanguageChange = (language: string) => {
+        setLessonLanguage(language);
+        saveLessonLanguage(language);
+    };
+
+    // Save transcript edits to the library once the user pauses.
+    // The session is read when the timer fires, so lessons, quizzes or answers saved meanwhile are kept.
+    useEffect(() => {
+        if (!activeSessionRef.current || activeSessionRef.current.segments === segments || segments.length === 0) return;
+        const timer = setTimeout(() => {
+            const session = activeSessionRef.current;
+            if (!session || session.segments === segments) return;
+            persistSession({
+                ...session,
+                segments,
+                translation: session.translation && withCurrentSpeakers(session.translation, segments),
+                updatedAt: Date.now(),
+            });
+        }, 1000);
+        return () => clearTimeout(timer);
+    }, [segments, persistSession]);
+
+    const handleSegmentTextChange = (segmentId: number, text: string) => {
+        editSegments(prev => prev.map(segment => segment.id === segmentId ? updateSegmentText(segment, text) : segment));
+    };
+
+    const handleReplaceAll = (pattern: RegExp, replacement: string) => {
+        editSegments(prev => replaceInSegments(prev, pattern, replacement));
+    };
+
+    const handleRenameSpeaker = (from: string, to: string) => {
+        editSegments(prev => renameSpeaker(prev, from, to));
+    };
+
+    const handleGlossaryChange = (updated: GlossaryEntry[]) => {
+        setGlossary(updated);
+        saveGlossary(updated);
+    };
+
+    const handleApplyGlossary = () => {
+        editSegments(prev => applyGlossary(prev, glossary));
+    };
+
     const resetPromptState = useCallback(() => {
+        lessonAbortRef.current?.abort();
+        lessonAbortRef.current = null;
         setPrompt('');
         setPromptResponse('');
         setPromptError(null);
         setPromptStatus('idle');
         setPromptCopied(false);
+        setCurrentLessonId(null);
+        setRegeneratingSection(null);
+
+        quizAbortRef.current?.abort();
+        quizAbortRef.current = null;
+        setQuiz(null);
+        setQuizLoading(false);
+        setQuizError(null);
+
+        chatAbortRef.current?.abort();
+        chatAbortRef.current = null;
+        setActiveThreadId(null);
+        setChatDraft('');
+        setChatLoading(false);
+        setChatError(null);
+        setPendingQuestion(null);
+        setStreamingAnswer('');
     }, []);
 
-    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        const file = event.target.files?.[0];
+    const resetTranscriptionState = useCallback(() => {
+        translationAbortRef.current?.abort();
+        translationAbortRef.current = null;
+        setStoredTranslation(null);
+        setTranslationLoading(false);
+        setTranslationProgress(null);
+        setTranslationError(null);
+        setSegments([]);
+        setChunks([]);
+        chunksRef.current = [];
+        audioBufferRef.current = null;
+        keptRangesRef.current = null;
+        selectSession(null);
+    }, [selectSession]);
+
+    /** A single file opens in the editor; several files (or a folder) go to the batch queue. */
+    const handleIncomingFiles = async (files: File[]) => {
+        if (files.length > 1) {
+            if (usage.budget !== null) {
+                // Files whose duration cannot be read are left out of the estimate.
+                const durations = await Promise.all(files.map(file => readMediaDuration(file).catch(() => 0)));
+                if (!confirmBudget(estimateTranscription(durations.reduce((sum, duration) => sum + duration, 0)))) return;
+            }
+            batch.addFiles(files);
+            return;
+        }
+        const file = files[0];
         if (file) {
             setError(null);
-            setTranscription('');
+            resetTranscriptionState();
             setSelectedFile(file);
+            // Trim points belong to one recording; the other preprocessing settings carry over.
+            setPreprocessOptions(options => ({ ...options, trimStart: 0, trimEnd: null }));
+            setPreprocessSummary(null);
             setStatus('idle');
             resetPromptState();
         }
     };
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files ?? []);
+        handleIncomingFiles(files.length > 1 ? sortFiles(files.filter(isMediaFile)) : files);
+        event.target.value = '';
+    };
     
-    const handleFileDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    const handleFileDrop = async (event: React.DragEvent<HTMLDivElement>) => {
         event.preventDefault();
         event.stopPropagation();
-        const file = event.dataTransfer.files?.[0];
-        if (file) {
-            setError(null);
-            setTranscription('');
-            setSelectedFile(file);
-            setStatus('idle');
-            resetPromptState();
-        }
+        handleIncomingFiles(await collectDroppedFiles(event.dataTransfer));
     };
 
     const removeFile = () => {
         setSelectedFile(null);
-        setTranscription('');
+        resetTranscriptionState();
         setStatus('idle');
         setCopied(false);
         resetPromptState();
@@ -130,287 +447,1161 @@ const App: React.FC = () => {
         setTimeout(() => setPromptCopied(false), 2500);
     };
 
+    const showLesson = (lesson: GeneratedLesson) => {
+        setPrompt(lesson.prompt);
+        setPromptResponse(lesson.content);
+        setPromptError(null);
+        setPromptStatus('idle');
+        setPromptCopied(false);
+        setCurrentLessonId(lesson.id);
+    };
+
+    const handleOpenSession = (session: LibrarySession) => {
+        removeFile();
+        selectSession(session);
+        setSegments(session.segments);
+        const latestLesson = session.lessons[session.lessons.length - 1];
+        if (latestLesson) showLesson(latestLesson);
+        setQuiz(session.quiz ?? null);
+        setStoredTranslation(session.translation ?? null);
+        if (session.translation) setTranslationLanguage(session.translation.language);
+    };
+
+    const handleRenameSession = (session: LibrarySession, title: string) => {
+        const renamed = { ...session, title, updatedAt: Date.now() };
+        if (activeSessionRef.current?.id === session.id) {
+            persistSession(renamed);
+        } else {
+            setLibrarySessions(prev => [renamed, ...prev.filter(item => item.id !== session.id)]);
+            saveSession(renamed).catch(err => console.error('Could not rename the session.', err));
+        }
+    };
+
+    const handleDeleteSession = async (session: LibrarySession) => {
+        if (activeSessionRef.current?.id === session.id) removeFile();
+        setLibrarySessions(prev => prev.filter(item => item.id !== session.id));
+        try {
+            await deleteSession(session.id);
+        } catch (err) {
+            console.error('Could not delete the session.', err);
+        }
+    };
+
+    const activeFileName = selectedFile?.name ?? activeSession?.fileName;
+    const activeFileSize = selectedFile?.size ?? activeSession?.fileSize;
+
+    const getExportData = (): SessionExportData | null => {
+        if (!activeFileName) return null;
+        return {
+            fileName: activeFileName,
+            fileSize: activeFileSize,
+            segments,
+            lessonPrompt: promptResponse ? prompt : undefined,
+            lesson: promptResponse || undefined,
+            quiz: quiz?.questions,
+        };
+    };
+
+    const handleTranscriptExport = (format: ExportFormat) => {
+        const data = getExportData();
+        if (data) downloadFile(exportTranscript(format, data));
+    };
+
+    const handleLessonExport = (format: LessonExportFormat) => {
+        const data = getExportData();
+        if (data) downloadFile(exportLesson(format, data));
+    };
+
+    const handleQuizExport = (format: QuizExportFormat) => {
+        const data = getExportData();
+        if (data?.quiz) downloadFile(exportQuiz(format, data));
+    };
+
+    const handleTranslationExport = (format: TranslationExportFormat) => {
+        const data = getExportData();
+        if (data && translation) downloadFile(exportTranscript(format, { ...data, segments: translation.segments }, translation.language));
+    };
+
+    const updateChunk = useCallback((index: number, changes: Partial<ChunkState>) => {
+        chunksRef.current = chunksRef.current.map(chunk => chunk.index === index ? { ...chunk, ...changes } : chunk);
+        setChunks(chunksRef.current);
+    }, []);
+
+    /** Shows a notice while a transient error is being retried. */
+    const handleRetryScheduled = useCallback((retryError: AppError, attempt: number, delayMs: number) => {
+        setRetryNotice(t('app.retrying', { error: describeError(retryError, locale), seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }));
+    }, [t, locale]);
+
+    /**
+     * Transcribes the given chunks, then stitches every finished chunk into the transcript.
+     * Cancelled chunks go back to pending so they can be resumed later.
+     */
+    const runChunks = useCallback(async (indices: number[], controller = new AbortController()) => {
+        if (!selectedFile || !provider) return;
+
+        transcriptionAbortRef.current = controller;
+        const { signal } = controller;
+        const sessionId = activeSessionRef.current?.id ?? pendingSessionIdRef.current;
+        const onUsage = usage.recorder('transcription', providerSettings.providerId, sessionId);
+        setStatus('transcribing');
+        setError(null);
+
+        await runWithConcurrency(indices, TRANSCRIPTION_CONCURRENCY, async (index) => {
+            if (signal.aborted) return;
+            const chunk = chunksRef.current[index];
+            updateChunk(index, { status: 'uploading', error: undefined });
+            try {
+                const chunkSegments = await transcribeChunk(
+                    selectedFile,
+                    audioBufferRef.current,
+                    chunk,
+                    {
+                        provider,
+                        model: providerSettings.transcriptionModel,
+                        language: providerSettings.transcriptionLanguage || undefined,
+                        glossary,
+                        signal,
+                        onRetry: handleRetryScheduled,
+                        onUsage,
+                    },
+                    () => updateChunk(index, { status: 'transcribing' }),
+                );
+                updateChunk(index, { status: 'done', segments: chunkSegments });
+            } catch (err) {
+                if (signal.aborted || isCancellation(err)) {
+                    updateChunk(index, { status: 'pending' });
+                    return;
+                }
+                console.error(err);
+                updateChunk(index, { status: 'error', error: describeError(err, locale) });
+            } finally {
+                setRetryNotice(null);
+            }
+        });
+        if (transcriptionAbortRef.current === controller) transcriptionAbortRef.current = null;
+
+        const finalChunks = chunksRef.current;
+        const mergedSegments = mergeTranscribedChunks(finalChunks, glossary, keptRangesRef.current);
+        setSegments(mergedSegments);
+
+        if (mergedSegments.length > 0) {
+            const existing = activeSessionRef.current;
+            await persistSession(existing
+                ? { ...existing, segments: mergedSegments, updatedAt: Date.now() }
+                : createSession(selectedFile, mergedSegments, providerSettings.providerId, providerSettings.transcriptionModel, sessionId));
+        }
+
+        const failed = finalChunks.filter(chunk => chunk.status === 'error');
+        const unfinished = finalChunks.filter(chunk => chunk.status !== 'done');
+        if (failed.length > 0) {
+            setError(t('app.chunksFailed', { failed: failed.length, total: finalChunks.length, error: failed[0].error ?? '' }));
+            setStatus('error');
+        } else if (signal.aborted && unfinished.length > 0) {
+            setError(t('app.transcriptionCancelled', { left: unfinished.length, total: finalChunks.length }));
+            setStatus('error');
+        } else {
+            setStatus('idle');
+        }
+    }, [selectedFile, provider, providerSettings.providerId, providerSettings.transcriptionModel, providerSettings.transcriptionLanguage, glossary, updateChunk, persistSession, handleRetryScheduled, usage.recorder, t, locale]);
+
     const handleTranscribe = useCallback(async () => {
         if (!selectedFile) {
-            setError("Please select an audio file first.");
+            setError(t('app.selectFileFirst'));
             return;
         }
-        if (!ai) {
-            setError("API key is not configured. Please set the API_KEY environment variable.");
+        if (!provider) {
+            setError(providerUnavailableMessage);
             return;
         }
+        if (!confirmBudget(transcriptionEstimate)) return;
 
-        setStatus('uploading');
+        setStatus('decoding');
         setError(null);
-        setTranscription('');
+        resetTranscriptionState();
+        pendingSessionIdRef.current = createId();
         setCopied(false);
         resetPromptState();
-        
+
+        // Decoding cannot be interrupted, but a cancel during it stops the run before any upload.
+        const controller = new AbortController();
+        transcriptionAbortRef.current = controller;
+        let prepared: PreparedAudio;
         try {
-            // 1. Upload the file to the File API. The SDK handles polling.
-            const uploadedFile = await ai.files.upload({
-                file: selectedFile,
-            });
+            prepared = await prepareAudio(selectedFile, preprocessEnabled ? preprocessOptions : null);
+        } catch (err) {
+            console.error(err);
+            transcriptionAbortRef.current = null;
+            setError(describeError(err, locale));
+            setStatus('error');
+            return;
+        }
+        audioBufferRef.current = prepared.buffer;
+        keptRangesRef.current = prepared.keptRanges;
+        chunksRef.current = prepared.chunks;
+        setChunks(chunksRef.current);
+        if (controller.signal.aborted) {
+            transcriptionAbortRef.current = null;
+            setStatus('idle');
+            return;
+        }
 
-            if (!uploadedFile) {
-                throw new Error("File upload failed: The API did not return a file object.");
-            }
-            
-            // 2. Transcribe the file by passing the file object directly.
-            // Gemini will wait for the file to be processed automatically.
-            setStatus('transcribing');
-            const audioPart = {
-                fileData: {
-                    mimeType: uploadedFile.mimeType,
-                    fileUri: uploadedFile.uri,
-                },
-            };
+        await runChunks(prepared.chunks.map(chunk => chunk.index), controller);
+    }, [selectedFile, provider, providerUnavailableMessage, resetPromptState, resetTranscriptionState, runChunks, preprocessEnabled, preprocessOptions, confirmBudget, transcriptionEstimate, t, locale]);
 
-            const textPart = {
-                text: "Transcribe this long audio recording in its entirety. Provide a high-quality, accurate transcript of all speech.",
-            };
+    const handleRetryFailed = useCallback(() => {
+        const unfinished = chunksRef.current.filter(chunk => chunk.status !== 'done');
+        if (unfinished.length === 0) return;
+        const seconds = unfinished.reduce((sum, chunk) => sum + (chunk.end - chunk.start), 0);
+        if (!confirmBudget(seconds > 0 ? estimateTranscription(seconds) : null)) return;
+        runChunks(unfinished.map(chunk => chunk.index));
+    }, [runChunks, confirmBudget, estimateTranscription]);
 
-            const response = await ai.models.generateContent({
-                model: 'gemini-2.5-pro',
-                contents: { parts: [textPart, audioPart] },
-            });
+    const handleCancelTranscription = () => {
+        transcriptionAbortRef.current?.abort();
+    };
+    
+    const [autoLesson, setAutoLesson] = useState<boolean>(false);
+    const [batchLessonInstructions, setBatchLessonInstructions] = useState<string>('');
 
-            const resultText = response.text;
-            if (resultText) {
-                setTranscription(resultText);
-            } else {
-                setError("Could not get a transcription. The response was empty.");
-            }
-            setStatus('idle');
+    /** Transcribes one queued file, saves it to the library and optionally generates a lesson from it. */
+    const runBatchJob = async (job: BatchJob, { update, isCancelled, signal }: BatchJobContext) => {
+        if (!provider) throw new Error(providerUnavailableMessage);
+
+        const sessionId = createId();
+        const jobSegments = await transcribeFile(job.file, {
+            provider,
+            model: providerSettings.transcriptionModel,
+            language: providerSettings.transcriptionLanguage || undefined,
+            glossary,
+            signal,
+            onUsage: usage.recorder('transcription', providerSettings.providerId, sessionId),
+            concurrency: TRANSCRIPTION_CONCURRENCY,
+            // Trim points are chosen per recording, so queued files only get silence removal and resampling.
+            preprocess: preprocessEnabled ? { ...preprocessOptions, trimStart: 0, trimEnd: null } : null,
+            onChunksChange: chunks => update({
+                progress: chunks.filter(chunk => chunk.status === 'done').length / chunks.length,
+            }),
+        });
+        if (isCancelled()) return;
 
-        } catch (err: any) {
+        const session = createSession(job.file, jobSegments, providerSettings.providerId, providerSettings.transcriptionModel, sessionId);
+        await addToLibrary(session);
+        update({ sessionId: session.id, progress: 1 });
+        if (!autoLesson) return;
+
+        update({ lessonStatus: 'running' });
+        try {
+            const instructions = batchLessonInstructions.trim() || job.file.name;
+            const lessonRequest = buildLessonRequest(selectedTemplate, segmentsToText(jobSegments), instructions, providerSettings.generationModel, lessonLanguageName);
+            const onUsage = usage.recorder('lesson', providerSettings.providerId, sessionId);
+            const content = await withRetry(() => provider.generate(lessonRequest, { signal, onUsage }), { signal });
+            if (isCancelled()) return;
+            const lesson = createLesson(selectedTemplate, instructions, lessonRequest, content);
+            await addToLibrary({ ...session, lessons: [lesson], updatedAt: lesson.createdAt });
+            update({ lessonStatus: 'done' });
+        } catch (err) {
+            if (isCancellation(err)) return;
             console.error(err);
-            setError(`An error occurred: ${err.message}. If you are uploading a large file, please ensure you have a stable internet connection.`);
-            setStatus('error');
+            update({ lessonStatus: 'error', lessonError: describeError(err) });
         }
-    }, [selectedFile, resetPromptState, ai]);
-    
+    };
+
+    const batch = useBatchQueue(runBatchJob);
+
+    const handleOpenBatchResult = (job: BatchJob) => {
+        const session = librarySessions.find(item => item.id === job.sessionId);
+        if (session) handleOpenSession(session);
+    };
+
     const handlePromptSubmit = useCallback(async () => {
         if (!prompt.trim() || !transcription) {
-            setPromptError("Lütfen bir talimat veya başlık girin.");
+            setPromptError(t('lesson.missingInstructions'));
             return;
         }
 
-        if (!ai) {
-            setPromptError("API anahtarı yapılandırılmamış.");
+        if (!provider) {
+            setPromptError(t('lesson.providerMissing'));
             return;
         }
 
+        const lessonRequest = buildLessonRequest(selectedTemplate, lessonTranscript, prompt, providerSettings.generationModel, lessonLanguageName);
+        if (!confirmBudget(estimateGenerationUsage(lessonRequest, EXPECTED_OUTPUT_TOKENS.lesson))) return;
+
         setPromptStatus('loading');
         setPromptError(null);
         setPromptResponse('');
         setPromptCopied(false);
+        setCurrentLessonId(null);
 
+        const controller = new AbortController();
+        lessonAbortRef.current = controller;
+        const onUsage = usage.recorder('lesson', providerSettings.providerId, activeSessionRef.current?.id);
+        let content = '';
         try {
-            const userPromptContents = `Lütfen aşağıdaki transkripte göre ders içeriğini oluşturun.
+            // Only a failure before the first streamed text is retried; a restart would duplicate output.
+            await withRetry(async () => {
+                for await (const text of provider.stream(lessonRequest, { signal: controller.signal, onUsage })) {
+                    content += text;
+                    setPromptResponse(content);
+                }
+            }, {
+                signal: controller.signal,
+                retries: 2,
+                onRetry: (retryError, attempt, delayMs) => {
+                    if (content) throw retryError;
+                    setPromptError(t('app.retrying', { error: describeError(retryError, locale), seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }));
+                },
+            });
+            
+            setPromptError(null);
+            setPromptStatus('idle');
 
---- TRANSKRİPT ---
-${transcription}
+            const session = activeSessionRef.current;
+            if (session && content) {
+                const lesson = createLesson(selectedTemplate, prompt, lessonRequest, content);
+                setCurrentLessonId(lesson.id);
+                await persistSession({ ...session, lessons: [...session.lessons, lesson], updatedAt: lesson.createdAt });
+            }
 
---- KULLANICI TALİMATLARI / DERS BAŞLIĞI ---
-${prompt}
-`;
+        } catch (err) {
+            if (lessonAbortRef.current !== controller) return;
+            if (isCancellation(err)) {
+                // Whatever was streamed before the cancel stays visible but is not saved.
+                setPromptError(content ? t('lesson.cancelled') : null);
+                setPromptStatus('idle');
+                return;
+            }
+            console.error(err);
+            setPromptError(describeError(err, locale));
+            setPromptStatus('error');
+        } finally {
+            if (lessonAbortRef.current === controller) lessonAbortRef.current = null;
+        }
+    }, [prompt, transcription, lessonTranscript, provider, providerSettings.providerId, providerSettings.generationModel, selectedTemplate, lessonLanguageName, persistSession, confirmBudget, usage.recorder, t, locale]);
 
-            const responseStream = await ai.models.generateContentStream({
-                model: 'gemini-2.5-pro',
-                contents: userPromptContents,
-                config: {
-                    systemInstruction: LESSON_GENERATION_SYSTEM_PROMPT,
+    const handleCancelLesson = () => {
+        lessonAbortRef.current?.abort();
+    };
+
+    /** Shows new lesson content, e.g. after a section was edited, and saves it over the shown lesson. */
+    const updateLessonContent = (content: string) => {
+        setPromptResponse(content);
+        const session = activeSessionRef.current;
+        if (!session || !currentLessonId) return;
+        persistSession({
+            ...session,
+            lessons: session.lessons.map(lesson => lesson.id === currentLessonId ? { ...lesson, content } : lesson),
+            updatedAt: Date.now(),
+        });
+    };
+
+    /** Rewrites one section of the shown lesson, streaming the new text in place of the old. */
+    const handleRegenerateSection = async (index: number) => {
+        const original = promptResponse;
+        const lesson = parseLessonSections(original);
+        if (!lesson || !transcription) return;
+        if (!provider) {
+            setPromptError(t('lesson.providerMissing'));
+            return;
+        }
+        const sectionRequest = buildSectionRequest(
+            selectedTemplate,
+            lessonTranscript,
+            original,
+            lesson.sections[index].heading,
+            providerSettings.generationModel,
+            lessonLanguageName,
+        );
+        if (!confirmBudget(estimateGenerationUsage(sectionRequest, EXPECTED_OUTPUT_TOKENS.section))) return;
+
+        const controller = new AbortController();
+        lessonAbortRef.current = controller;
+        const onUsage = usage.recorder('lesson', providerSettings.providerId, activeSessionRef.current?.id);
+        const withSection = (body: string) => composeLesson(replaceSectionBody(lesson, index, stripLeadingHeading(body)));
+        setPromptStatus('loading');
+        setPromptError(null);
+        setRegeneratingSection(index);
+
+        let body = '';
+        try {
+            await withRetry(async () => {
+                for await (const text of provider.stream(sectionRequest, { signal: controller.signal, onUsage })) {
+                    body += text;
+                    setPromptResponse(withSection(body));
                 }
+            }, {
+                signal: controller.signal,
+                retries: 2,
+                onRetry: retryError => { if (body) throw retryError; },
             });
+            setPromptStatus('idle');
+            updateLessonContent(withSection(body));
+        } catch (err) {
+            if (lessonAbortRef.current !== controller) return;
+            // The section keeps its previous text when the rewrite does not finish.
+            setPromptResponse(original);
+            setPromptStatus('idle');
+            if (!isCancellation(err)) {
+                console.error(err);
+                setPromptError(describeError(err, locale));
+            }
+        } finally {
+            if (lessonAbortRef.current === controller) {
+                lessonAbortRef.current = null;
+                setRegeneratingSection(null);
+            }
+        }
+    };
+
+    const quizRequest = useMemo(
+        () => lessonTranscript
+            ? buildQuizRequest(lessonTranscript, quizQuestionCount, lessonLanguageName ?? selectedTemplate.outputLanguage, providerSettings.generationModel)
+            : null,
+        [lessonTranscript, quizQuestionCount, lessonLanguageName, selectedTemplate.outputLanguage, providerSettings.generationModel],
+    );
+    const quizEstimate = useMemo(
+        () => quizRequest ? estimateGenerationUsage(quizRequest, quizQuestionCount * EXPECTED_OUTPUT_TOKENS.quizQuestion) : null,
+        [quizRequest, quizQuestionCount],
+    );
+
+    /** Generates a multiple-choice quiz from the transcript and saves it with the session. */
+    const handleGenerateQuiz = async () => {
+        if (!quizRequest) return;
+        if (!provider) {
+            setQuizError(providerUnavailableMessage);
+            return;
+        }
+        if (!confirmBudget(quizEstimate)) return;
 
-            for await (const chunk of responseStream) {
-                setPromptResponse(prev => prev + chunk.text);
+        const controller = new AbortController();
+        quizAbortRef.current = controller;
+        const { signal } = controller;
+        const onUsage = usage.recorder('quiz', providerSettings.providerId, activeSessionRef.current?.id);
+        setQuizLoading(true);
+        setQuizError(null);
+        try {
+            const response = await withRetry(() => provider.generate(quizRequest, { signal, onUsage }), { signal });
+            const newQuiz = createQuiz(parseQuizResponse(response), quizRequest.model);
+            setQuiz(newQuiz);
+            const session = activeSessionRef.current;
+            if (session) await persistSession({ ...session, quiz: newQuiz, updatedAt: newQuiz.createdAt });
+        } catch (err) {
+            if (quizAbortRef.current !== controller) return;
+            if (!isCancellation(err)) {
+                console.error(err);
+                setQuizError(describeError(err, locale));
             }
-            
-            setPromptStatus('idle');
+        } finally {
+            if (quizAbortRef.current === controller) {
+                quizAbortRef.current = null;
+                setQuizLoading(false);
+            }
+        }
+    };
 
-        } catch (err: any) {
-            console.error(err);
-            setPromptError(`Bir hata oluştu: ${err.message}`);
-            setPromptStatus('error');
+    const handleCancelQuiz = () => {
+        quizAbortRef.current?.abort();
+    };
+
+    /** Translates the transcript segment by segment and saves the translation with the session. */
+    const handleTranslate = async () => {
+        if (segments.length === 0) return;
+        if (!provider) {
+            setTranslationError(providerUnavailableMessage);
+            return;
+        }
+        if (!confirmBudget(translationEstimate)) return;
+
+        const controller = new AbortController();
+        translationAbortRef.current = controller;
+        const { signal } = controller;
+        const onUsage = usage.recorder('translation', providerSettings.providerId, activeSessionRef.current?.id);
+        const language = translationLanguage;
+        setTranslationLoading(true);
+        setTranslationProgress(null);
+        setTranslationError(null);
+        try {
+            const translated = await translateSegments(provider, segments, languageName(language, language), providerSettings.generationModel, {
+                signal,
+                onUsage,
+                onProgress: (done, total) => setTranslationProgress({ done, total }),
+                onRetry: (retryError, attempt, delayMs) => setTranslationError(
+                    t('app.retrying', { error: describeError(retryError, locale), seconds: Math.ceil(delayMs / 1000), attempt: attempt + 1 }),
+                ),
+            });
+            const newTranslation = createTranslation(language, translated, providerSettings.generationModel);
+            setStoredTranslation(newTranslation);
+            setTranslationError(null);
+            const session = activeSessionRef.current;
+            if (session) await persistSession({ ...session, translation: newTranslation, updatedAt: newTranslation.createdAt });
+        } catch (err) {
+            if (translationAbortRef.current !== controller) return;
+            setTranslationError(null);
+            if (!isCancellation(err)) {
+                console.error(err);
+                setTranslationError(describeError(err, locale));
+            }
+        } finally {
+            if (translationAbortRef.current === controller) {
+                translationAbortRef.current = null;
+                setTranslationLoading(false);
+                setTranslationProgress(null);
+            }
+        }
+    };
+
+    const handleCancelTranslation = () => {
+        translationAbortRef.current?.abort();
+    };
+
+    /** Sends the draft as the next question of the active thread, or starts a thread with it. */
+    const handleChatSend = async () => {
+        const question = chatDraft.trim();
+        const session = activeSessionRef.current;
+        if (!question || !session) return;
+        if (!provider) {
+            setChatError(providerUnavailableMessage);
+            return;
+        }
+
+        const thread = session.threads?.find(item => item.id === activeThreadId) ?? createThread(question);
+        const messages = [...thread.messages, createChatMessage('user', question)];
+        const chatRequest = buildChatRequest(segments, messages, providerSettings.generationModel);
+        if (!confirmBudget(estimateGenerationUsage(chatRequest, EXPECTED_OUTPUT_TOKENS.chat))) return;
+        const onUsage = usage.recorder('chat', providerSettings.providerId, session.id);
+        const controller = new AbortController();
+        chatAbortRef.current = controller;
+        setChatDraft('');
+        setChatError(null);
+        setPendingQuestion(question);
+        setStreamingAnswer('');
+        setChatLoading(true);
+
+        let answer = '';
+        try {
+            await withRetry(async () => {
+                for await (const text of provider.stream(chatRequest, { signal: controller.signal, onUsage })) {
+                    answer += text;
+                    setStreamingAnswer(answer);
+                }
+            }, {
+                signal: controller.signal,
+                retries: 2,
+                onRetry: retryError => { if (answer) throw retryError; },
+            });
+
+            // The question and answer are saved together, so a failed turn leaves no trace in the thread.
+            const latest = activeSessionRef.current ?? session;
+            const now = Date.now();
+            const updatedThread = { ...thread, messages: [...messages, createChatMessage('model', answer)], updatedAt: now };
+            await persistSession({ ...latest, threads: upsertThread(latest.threads ?? [], updatedThread), updatedAt: now });
+            setActiveThreadId(updatedThread.id);
+        } catch (err) {
+            if (chatAbortRef.current !== controller) return;
+            if (!isCancellation(err)) {
+                console.error(err);
+                setChatError(describeError(err, locale));
+            }
+            setChatDraft(current => current || question);
+        } finally {
+            if (chatAbortRef.current === controller) {
+                chatAbortRef.current = null;
+                setChatLoading(false);
+                setPendingQuestion(null);
+                setStreamingAnswer('');
+            }
         }
-    }, [prompt, transcription, ai]);
+    };
+
+    const handleCancelChat = () => {
+        chatAbortRef.current?.abort();
+    };
 
-    const isProcessing = ['uploading', 'transcribing'].includes(status);
+    const handleSelectThread = (id: string | null) => {
+        setActiveThreadId(id);
+        setChatError(null);
+    };
+
+    const handleDeleteThread = (id: string) => {
+        const session = activeSessionRef.current;
+        if (!session) return;
+        persistSession({ ...session, threads: (session.threads ?? []).filter(thread => thread.id !== id), updatedAt: Date.now() });
+        if (activeThreadId === id) setActiveThreadId(null);
+    };
+
+    const handleCite = (time: number) => {
+        transcriptViewerRef.current?.seekTo(time);
+    };
+
+    const isProcessing = ['decoding', 'transcribing'].includes(status);
+    const completedChunks = chunks.filter(chunk => chunk.status === 'done').length;
+    const failedChunks = chunks.filter(chunk => chunk.status === 'error').length;
+    const unfinishedChunks = chunks.filter(chunk => chunk.status !== 'done').length;
 
     const getButtonText = () => {
         switch (status) {
-            case 'uploading':
-                return `Uploading & Processing...`;
+            case 'decoding':
+                return t('app.preparingAudio');
             case 'transcribing':
-                return 'Transcribing...';
+                return chunks.length > 1 ? t('app.transcribingProgress', { done: completedChunks, total: chunks.length }) : t('app.transcribing');
             default:
-                return 'Transcribe Audio';
+                return t('app.transcribe');
         }
     };
 
 
     return (
         <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col font-sans">
-            <header className="p-4 border-b border-gray-700 shadow-lg">
-                <h1 className="text-2xl font-bold text-center text-cyan-400">Gemini Large Audio Transcriber</h1>
-                <p className="text-center text-gray-400">Upload a large audio file to generate a transcript and ask questions about it.</p>
+            <header className="relative p-4 border-b border-gray-700 shadow-lg">
+                <h1 className="text-2xl font-bold text-center text-cyan-400">{t('app.title')}</h1>
+                <p className="text-center text-gray-400">{t('app.subtitle')}</p>
+                <select
+                    className="absolute top-4 right-4 p-1 bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                    value={locale}
+                    onChange={(e) => setLocale(e.target.value as Locale)}
+                    aria-label={t('app.uiLanguage')}
+                >
+                    {LOCALES.map(({ id, label }) => <option key={id} value={id}>{label}</option>)}
+                </select>
             </header>
 
-            <main className="flex-grow flex flex-col items-center justify-center p-4 md:p-6 space-y-6">
-                
-                <div 
-                    className="w-full max-w-2xl"
-                    onDragOver={(e) => {e.preventDefault(); e.stopPropagation();}}
-                    onDrop={handleFileDrop}
-                >
-                    {!selectedFile ? (
-                        <div 
-                            onClick={() => fileInputRef.current?.click()}
-                            className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer bg-gray-800 hover:bg-gray-700/50 transition-colors"
-                        >
-                            <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center">
-                                <UploadIcon />
-                                <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">Click to upload</span> or drag and drop</p>
-                                <p className="text-xs text-gray-500">MP3, WAV, M4A, etc. (Large files supported)</p>
-                                <p className="text-xs text-gray-500 mt-1">To transcribe a YouTube video, download its audio first.</p>
+            <div className="flex-grow flex flex-col md:flex-row">
+                <LibrarySidebar
+                    sessions={librarySessions}
+                    activeSessionId={activeSession?.id ?? null}
+                    onOpen={handleOpenSession}
+                    onRename={handleRenameSession}
+                    onDelete={handleDeleteSession}
+                    disabled={isProcessing || promptStatus === 'loading'}
+                />
+
+                <main className="flex-grow flex flex-col items-center justify-center p-4 md:p-6 space-y-6">
+
+                    <ProviderSettingsPanel
+                        settings={providerSettings}
+                        onChange={handleProviderSettingsChange}
+                        disabled={isProcessing || promptStatus === 'loading'}
+                        geminiKeyPersistence={storedGeminiKey?.persistence ?? null}
+                        onEditGeminiKey={() => setShowApiKeyDialog(true)}
+                    />
+
+                    <UsagePanel ledger={usage} sessions={librarySessions} activeSessionId={activeSession?.id} />
+                    
+                    <div 
+                        className="w-full max-w-2xl"
+                        onDragOver={(e) => {e.preventDefault(); e.stopPropagation();}}
+                        onDrop={handleFileDrop}
+                    >
+                        {!selectedFile && !activeSession ? (
+                            <div 
+                                onClick={() => fileInputRef.current?.click()}
+                                className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-gray-600 rounded-lg cursor-pointer bg-gray-800 hover:bg-gray-700/50 transition-colors"
+                            >
+                                <div className="flex flex-col items-center justify-center pt-5 pb-6 text-center">
+                                    <UploadIcon />
+                                    <p className="mb-2 text-sm text-gray-400"><span className="font-semibold">{t('app.dropzone.click')}</span>{t('app.dropzone.drag')}</p>
+                                    <p className="text-xs text-gray-500">{t('app.dropzone.formats')}</p>
+                                    <p className="text-xs text-gray-500 mt-1">{t('app.dropzone.videos')}</p>
+                                    <p className="text-xs text-gray-500 mt-1">
+                                        {t('app.dropzone.batch')}{' '}
+                                        <button
+                                            onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+                                            className="text-cyan-400 hover:underline"
+                                        >
+                                            {t('app.dropzone.folder')}
+                                        </button>.
+                                    </p>
+                                </div>
+                                <input ref={fileInputRef} id="dropzone-file" type="file" className="hidden" onChange={handleFileChange} accept="audio/*,video/*,.mkv" multiple />
+                                <input
+                                    ref={folderInputRef}
+                                    type="file"
+                                    className="hidden"
+                                    onChange={handleFileChange}
+                                    // Non-standard but supported by all major browsers; not part of React's typings.
+                                    {...{ webkitdirectory: '' }}
+                                />
                             </div>
-                            <input ref={fileInputRef} id="dropzone-file" type="file" className="hidden" onChange={handleFileChange} accept="audio/*" />
-                        </div>
-                    ) : (
-                        <div className="w-full p-4 border border-gray-700 rounded-lg bg-gray-800 flex items-center justify-between">
-                            <div className="flex items-center space-x-3 overflow-hidden">
-                                <FileAudioIcon />
-                                <div className="flex flex-col overflow-hidden">
-                                    <span className="text-sm font-medium text-gray-200 truncate">{selectedFile.name}</span>
-                                    <span className="text-xs text-gray-400">{formatFileSize(selectedFile.size)}</span>
+                        ) : (
+                            <div className="w-full p-4 border border-gray-700 rounded-lg bg-gray-800 space-y-3">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center space-x-3 overflow-hidden">
+                                        {selectedFile && isVideoFile(selectedFile) ? <FileVideoIcon /> : <FileAudioIcon />}
+                                        <div className="flex flex-col overflow-hidden">
+                                            <span className="text-sm font-medium text-gray-200 truncate">{activeFileName}</span>
+                                            <span className="text-xs text-gray-400">
+                                                {formatSize(activeFileSize ?? 0)}
+                                                {selectedFile && preprocessEnabled && preprocessSummary && (
+                                                    <span className="text-cyan-300">
+                                                        {t('app.toUpload', {
+                                                            size: formatSize(estimateUploadSize(preprocessSummary.keptDuration, preprocessOptions.sampleRate)),
+                                                            kept: formatTimestamp(preprocessSummary.keptDuration),
+                                                            total: formatTimestamp(preprocessSummary.duration),
+                                                        })}
+                                                    </span>
+                                                )}
+                                                {!selectedFile && t('app.openedFromLibrary')}
+                                            </span>
+                                        </div>
+                                    </div>
+                                    <button onClick={removeFile} title={t('app.removeFile')} className="p-1 text-gray-400 hover:text-white rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500">
+                                        <XCircleIcon />
+                                    </button>
                                 </div>
+                                {selectedFile && (
+                                    <label className="flex items-center space-x-2 text-sm text-gray-400">
+                                        <input
+                                            type="checkbox"
+                                            checked={preprocessEnabled}
+                                            disabled={isProcessing}
+                                            onChange={(e) => setPreprocessEnabled(e.target.checked)}
+                                        />
+                                        <span>{t('app.preprocess')}</span>
+                                    </label>
+                                )}
+                                {selectedFile && preprocessEnabled && (
+                                    <AudioPreprocessPanel
+                                        file={selectedFile}
+                                        options={preprocessOptions}
+                                        onChange={setPreprocessOptions}
+                                        onSummaryChange={setPreprocessSummary}
+                                        disabled={isProcessing}
+                                    />
+                                )}
                             </div>
-                            <button onClick={removeFile} className="p-1 text-gray-400 hover:text-white rounded-full focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500">
-                                <XCircleIcon />
-                            </button>
-                        </div>
+                        )}
+                    </div>
+
+                    {batch.jobs.length > 0 && (
+                        <BatchQueuePanel
+                            jobs={batch.jobs}
+                            concurrency={batch.concurrency}
+                            onConcurrencyChange={batch.setConcurrency}
+                            paused={batch.paused}
+                            onPausedChange={batch.setPaused}
+                            onCancel={batch.cancelJob}
+                            onCancelAll={batch.cancelAll}
+                            onRetry={batch.retryJob}
+                            onRemove={batch.removeJob}
+                            onClearFinished={batch.clearFinished}
+                            onOpenResult={handleOpenBatchResult}
+                            autoLesson={autoLesson}
+                            onAutoLessonChange={setAutoLesson}
+                            lessonInstructions={batchLessonInstructions}
+                            onLessonInstructionsChange={setBatchLessonInstructions}
+                            templateName={selectedTemplate.name}
+                        />
                     )}
-                </div>
 
-                {status === 'uploading' && (
-                    <div className="w-full max-w-2xl -my-4 text-center">
-                        <div className="w-full bg-gray-700 rounded-full h-2.5 overflow-hidden">
-                            <div 
-                                className="bg-cyan-500 h-2.5 rounded-full animate-pulse"
-                            ></div>
-                        </div>
-                         <p className="text-sm text-gray-400 mt-2">Uploading file... This can take several minutes for large files.</p>
-                    </div>
-                )}
-                
-                <button
-                    onClick={handleTranscribe}
-                    disabled={!selectedFile || isProcessing}
-                    className="flex items-center justify-center px-8 py-3 rounded-full text-white font-semibold 
-                               transition-all duration-300 ease-in-out shadow-lg focus:outline-none focus:ring-4 focus:ring-cyan-500/50
-                               bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
-                >
-                    {isProcessing ? (
-                        <>
-                            <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                            </svg>
-                            {getButtonText()}
-                        </>
-                    ) : (
-                        getButtonText()
+                    {status === 'decoding' && (
+                        <p className="text-sm text-gray-400 -my-4">{t('app.decoding')}</p>
                     )}
-                </button>
-                
-                {error && (
-                    <div className="text-red-400 bg-red-900/50 p-3 rounded-md text-center max-w-2xl w-full">
-                        <p><strong>Error:</strong> {error}</p>
-                    </div>
-                )}
-                
-                {transcription && (
-                     <div className="w-full max-w-2xl bg-gray-800 rounded-lg p-4 mt-4 border border-gray-700 shadow-inner">
-                        <div className="flex justify-between items-center mb-2">
-                             <h2 className="text-lg font-semibold text-cyan-400">Transcription Result:</h2>
-                             <button 
-                                onClick={handleCopy}
-                                className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md font-medium transition-colors
-                                           bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 
-                                           focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500"
-                            >
-                                {copied ? <CheckIcon /> : <ClipboardIcon />}
-                                <span>{copied ? 'Copied!' : 'Copy'}</span>
-                             </button>
-                        </div>
-                        <div className="max-h-60 overflow-y-auto bg-gray-900/50 p-2 rounded-md border border-gray-700">
-                           <p className="text-gray-300 whitespace-pre-wrap font-mono text-sm">{transcription}</p>
-                        </div>
-                    </div>
-                )}
 
-                {transcription && (
-                    <div className="w-full max-w-2xl space-y-4">
-                        <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700">
-                            <h2 className="text-lg font-semibold text-teal-400 mb-3">Transkriptten Ders İçeriği Oluştur</h2>
-                            <textarea
-                                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition-colors"
-                                rows={3}
-                                placeholder="Örn: 'Yapay Zeka ile Test Otomasyonu' için bir ders oluşturun veya ders için özel talimatlar girin."
-                                value={prompt}
-                                onChange={(e) => setPrompt(e.target.value)}
-                                disabled={promptStatus === 'loading'}
-                                aria-label="Ask a question about the transcript"
-                            />
+                    {chunks.length > 0 && (isProcessing || status === 'error') && (
+                        <div className="w-full max-w-2xl -my-4 text-center">
+                            <div className="w-full bg-gray-700 rounded-full h-2.5 overflow-hidden">
+                                <div
+                                    className="bg-cyan-500 h-2.5 rounded-full transition-all duration-500"
+                                    style={{ width: `${(completedChunks / chunks.length) * 100}%` }}
+                                ></div>
+                            </div>
+                            <p className="text-sm text-gray-400 mt-2">
+                                {tp('app.chunksTranscribed', chunks.length, { done: completedChunks })}
+                                {failedChunks > 0 && <span className="text-red-400">{t('app.chunksFailedCount', { count: failedChunks })}</span>}
+                            </p>
+                            {chunks.length > 1 && (
+                                <div className="flex flex-wrap justify-center gap-1 mt-2">
+                                    {chunks.map(chunk => (
+                                        <span
+                                            key={chunk.index}
+                                            title={chunk.error ?? t(`app.chunkStatus.${chunk.status}`)}
+                                            className={`px-2 py-0.5 rounded text-xs font-mono ${
+                                                chunk.status === 'done' ? 'bg-cyan-900/60 text-cyan-300'
+                                                : chunk.status === 'error' ? 'bg-red-900/60 text-red-300'
+                                                : chunk.status === 'pending' ? 'bg-gray-700 text-gray-400'
+                                                : 'bg-gray-600 text-white animate-pulse'
+                                            }`}
+                                        >
+                                            {formatTimestamp(chunk.start)}–{formatTimestamp(chunk.end)}
+                                        </span>
+                                    ))}
+                                </div>
+                            )}
+                            {retryNotice && isProcessing && <p className="text-xs text-yellow-300 mt-2">{retryNotice}</p>}
+                            {unfinishedChunks > 0 && status === 'error' && (
+                                <button
+                                    onClick={handleRetryFailed}
+                                    className="mt-3 px-4 py-1.5 text-sm rounded-full font-medium transition-colors bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                >
+                                    {failedChunks > 0 ? t('app.retryFailed') : t('app.resume')}
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleTranscribe}
+                            disabled={!selectedFile || isProcessing}
+                            className="flex items-center justify-center px-8 py-3 rounded-full text-white font-semibold 
+                                       transition-all duration-300 ease-in-out shadow-lg focus:outline-none focus:ring-4 focus:ring-cyan-500/50
+                                       bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        >
+                            {isProcessing ? (
+                                <>
+                                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                    </svg>
+                                    {getButtonText()}
+                                </>
+                            ) : (
+                                getButtonText()
+                            )}
+                        </button>
+                        {isProcessing && (
                             <button
-                                onClick={handlePromptSubmit}
-                                disabled={!prompt.trim() || promptStatus === 'loading'}
-                                className="mt-3 flex items-center justify-center px-6 py-2 rounded-full text-white font-semibold 
-                                           transition-all duration-300 ease-in-out shadow-lg focus:outline-none focus:ring-4 focus:ring-teal-500/50
-                                           bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                onClick={handleCancelTranscription}
+                                className="px-6 py-3 rounded-full font-semibold transition-colors bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-4 focus:ring-gray-500/50"
                             >
-                                {promptStatus === 'loading' ? (
-                                    <>
-                                        <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                                        </svg>
-                                        <span>Oluşturuluyor...</span>
-                                    </>
-                                ) : (
-                                    <span>Ders Oluştur</span>
-                                )}
+                                {t('common.cancel')}
                             </button>
-                        </div>
-
-                        {promptError && (
-                            <div className="text-red-400 bg-red-900/50 p-3 rounded-md text-center w-full">
-                                <p><strong>Error:</strong> {promptError}</p>
-                            </div>
                         )}
-
-                        {(promptResponse || promptStatus === 'loading') && (
-                            <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-inner prose prose-invert prose-p:text-gray-300 prose-headings:text-teal-400 max-w-none">
-                                <div className="flex justify-between items-center mb-2 not-prose">
-                                    <h2 className="text-lg font-semibold text-teal-400">Oluşturulan Ders İçeriği:</h2>
-                                    <button 
-                                        onClick={handlePromptCopy}
+                    </div>
+                    {selectedFile && !isProcessing && transcriptionEstimate && (
+                        <p className="text-xs text-gray-500 -mt-4">
+                            {t('usage.estimated', { estimate: formatUsageEstimate(transcriptionEstimate, usage.prices, locale) })}
+                        </p>
+                    )}
+                    
+                    {error && (
+                        <div className="text-red-400 bg-red-900/50 p-3 rounded-md text-center max-w-2xl w-full">
+                            <p><strong>{t('common.error')}</strong> {error}</p>
+                        </div>
+                    )}
+                    
+                    {transcription && (
+                         <div className="w-full max-w-4xl bg-gray-800 rounded-lg p-4 mt-4 border border-gray-700 shadow-inner">
+                            <div className="flex justify-between items-center mb-2">
+                                 <h2 className="text-lg font-semibold text-cyan-400">{t('app.transcriptTitle')}</h2>
+                                 <div className="flex items-center space-x-2">
+                                     <button
+                                        onClick={() => setIsEditing(!isEditing)}
+                                        disabled={isProcessing}
+                                        className={`px-3 py-1.5 text-sm rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 ${
+                                            isEditing ? 'bg-cyan-700 text-white hover:bg-cyan-600' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                        }`}
+                                        aria-pressed={isEditing}
+                                     >
+                                        {isEditing ? t('app.done') : t('app.edit')}
+                                     </button>
+                                     <button
+                                        onClick={() => setShowSpeakers(!showSpeakers)}
+                                        className={`px-3 py-1.5 text-sm rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-cyan-500 ${
+                                            showSpeakers ? 'bg-cyan-700 text-white hover:bg-cyan-600' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+                                        }`}
+                                        aria-pressed={showSpeakers}
+                                     >
+                                        {t('app.speakers', { count: speakerCount })}
+                                     </button>
+                                     <ExportButtons formats={TRANSCRIPT_EXPORT_FORMATS} onExport={handleTranscriptExport} />
+                                     <button 
+                                        onClick={handleCopy}
                                         className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md font-medium transition-colors
                                                    bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 
-                                                   focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500"
+                                                   focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-cyan-500"
                                     >
-                                        {promptCopied ? <CheckIcon /> : <ClipboardIcon />}
-                                        <span>{promptCopied ? 'Copied!' : 'Copy'}</span>
-                                    </button>
+                                        {copied ? <CheckIcon /> : <ClipboardIcon />}
+                                        <span>{copied ? t('common.copied') : t('common.copy')}</span>
+                                     </button>
+                                 </div>
+                            </div>
+                            {isEditing && (
+                                <TranscriptEditorTools
+                                    segments={segments}
+                                    canUndo={canUndo}
+                                    canRedo={canRedo}
+                                    onUndo={undoEdit}
+                                    onRedo={redoEdit}
+                                    onReplaceAll={handleReplaceAll}
+                                    glossary={glossary}
+                                    onGlossaryChange={handleGlossaryChange}
+                                    onApplyGlossary={handleApplyGlossary}
+                                />
+                            )}
+                            {showSpeakers && (
+                                <div className="mb-3 p-3 bg-gray-900/50 rounded-md border border-gray-700">
+                                    <SpeakerPanel segments={segments} onRename={handleRenameSpeaker} disabled={isProcessing} />
                                 </div>
-                                <ReactMarkdown remarkPlugins={[remarkGfm]}>{promptResponse}</ReactMarkdown>
+                            )}
+                            <TranscriptViewer
+                                ref={transcriptViewerRef}
+                                segments={segments}
+                                mediaUrl={mediaUrl}
+                                mediaKind={selectedFile && isVideoFile(selectedFile) ? 'video' : 'audio'}
+                                editing={isEditing && !isProcessing}
+                                onSegmentTextChange={handleSegmentTextChange}
+                            />
+                        </div>
+                    )}
+
+                    {transcription && (
+                        <TranslationPanel
+                            segments={segments}
+                            translation={translation}
+                            language={translationLanguage}
+                            onLanguageChange={setTranslationLanguage}
+                            onTranslate={handleTranslate}
+                            onCancel={handleCancelTranslation}
+                            onExport={handleTranslationExport}
+                            onSeek={handleCite}
+                            loading={translationLoading}
+                            progress={translationProgress}
+                            error={translationError}
+                            estimate={translationEstimate ? formatUsageEstimate(translationEstimate, usage.prices, locale) : undefined}
+                            disabled={isProcessing}
+                        />
+                    )}
+
+                    {transcription && (
+                        <div className="w-full max-w-2xl space-y-4">
+                            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+                                <button
+                                    onClick={() => setAssistantTab('lesson')}
+                                    className={`px-4 py-1.5 text-sm rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                                        assistantTab === 'lesson' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                                    }`}
+                                    aria-pressed={assistantTab === 'lesson'}
+                                >
+                                    {t('app.tab.lesson')}
+                                </button>
+                                <button
+                                    onClick={() => setAssistantTab('chat')}
+                                    className={`px-4 py-1.5 text-sm rounded-md font-medium transition-colors focus:outline-none focus:ring-2 focus:ring-teal-500 ${
+                                        assistantTab === 'chat' ? 'bg-gray-700 text-white' : 'text-gray-400 hover:text-white'
+                                    }`}
+                                    aria-pressed={assistantTab === 'chat'}
+                                >
+                                    {t('app.tab.chat')}{activeSession?.threads?.length ? ` (${activeSession.threads.length})` : ''}
+                                </button>
                             </div>
-                        )}
-                    </div>
+                            {assistantTab === 'lesson' && (
+                                <>
+                                <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700">
+                                    <h2 className="text-lg font-semibold text-teal-400 mb-3">{t('lesson.title')}</h2>
+                                    <div className="flex items-center space-x-2 mb-3 text-sm">
+                                        <label htmlFor="template-select" className="text-gray-400">{t('lesson.template')}</label>
+                                        <select
+                                            id="template-select"
+                                            className="flex-1 p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                            value={selectedTemplate.id}
+                                            onChange={(e) => handleTemplateSelect(e.target.value)}
+                                            disabled={promptStatus === 'loading'}
+                                        >
+                                            {templates.map(template => (
+                                                <option key={template.id} value={template.id}>
+                                                    {template.name}{template.outputLanguage ? ` (${template.outputLanguage})` : ''}
+                                                </option>
+                                            ))}
+                                        </select>
+                                        <button
+                                            onClick={() => setShowTemplateManager(true)}
+                                            disabled={promptStatus === 'loading'}
+                                            className="px-3 py-1.5 rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50"
+                                        >
+                                            {t('lesson.manageTemplates')}
+                                        </button>
+                                    </div>
+                                    <div className="flex items-center space-x-2 mb-3 text-sm">
+                                        <label htmlFor="lesson-language" className="text-gray-400">{t('lesson.outputLanguage')}</label>
+                                        <select
+                                            id="lesson-language"
+                                            className="flex-1 p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                            value={lessonLanguage}
+                                            onChange={(e) => handleLessonLanguageChange(e.target.value)}
+                                            disabled={promptStatus === 'loading'}
+                                        >
+                                            <option value="">{t('lesson.templateLanguage', { language: selectedTemplate.outputLanguage || '—' })}</option>
+                                            {CONTENT_LANGUAGES.map(code => (
+                                                <option key={code} value={code}>{languageName(code, locale)}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    {translation && (
+                                        <div className="flex items-center space-x-2 mb-3 text-sm">
+                                            <label htmlFor="lesson-source" className="text-gray-400">{t('lesson.source')}</label>
+                                            <select
+                                                id="lesson-source"
+                                                className="flex-1 p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                                value={lessonSource}
+                                                onChange={(e) => setLessonSource(e.target.value as 'original' | 'translation')}
+                                                disabled={promptStatus === 'loading'}
+                                            >
+                                                <option value="original">{t('lesson.sourceOriginal')}</option>
+                                                <option value="translation">{t('lesson.sourceTranslation', { language: languageName(translation.language, locale) })}</option>
+                                            </select>
+                                        </div>
+                                    )}
+                                    <textarea
+                                        className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none transition-colors"
+                                        rows={3}
+                                        placeholder={t('lesson.placeholder')}
+                                        value={prompt}
+                                        onChange={(e) => setPrompt(e.target.value)}
+                                        disabled={promptStatus === 'loading'}
+                                        aria-label={t('lesson.instructionsLabel')}
+                                    />
+                                    <div className="mt-3 flex items-center gap-3">
+                                        <button
+                                            onClick={handlePromptSubmit}
+                                            disabled={!prompt.trim() || promptStatus === 'loading'}
+                                            className="flex items-center justify-center px-6 py-2 rounded-full text-white font-semibold 
+                                                       transition-all duration-300 ease-in-out shadow-lg focus:outline-none focus:ring-4 focus:ring-teal-500/50
+                                                       bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                        >
+                                            {promptStatus === 'loading' ? (
+                                                <>
+                                                    <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                                                        <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                                                        <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                                                    </svg>
+                                                    <span>{t('lesson.generating')}</span>
+                                                </>
+                                            ) : (
+                                                <span>{t('lesson.generate')}</span>
+                                            )}
+                                        </button>
+                                        {promptStatus === 'loading' && (
+                                            <button
+                                                onClick={handleCancelLesson}
+                                                className="px-6 py-2 rounded-full font-semibold transition-colors bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                                            >
+                                                {t('common.cancel')}
+                                            </button>
+                                        )}
+                                        {promptStatus !== 'loading' && prompt.trim() && lessonEstimate && (
+                                            <span className="text-xs text-gray-500">
+                                                {t('usage.estimated', { estimate: formatUsageEstimate(lessonEstimate, usage.prices, locale) })}
+                                            </span>
+                                        )}
+                                    </div>
+                                </div>
+
+                                {promptError && (
+                                    <div className="text-red-400 bg-red-900/50 p-3 rounded-md text-center w-full">
+                                        <p><strong>{t('common.error')}</strong> {promptError}</p>
+                                    </div>
+                                )}
+
+                                {activeSession && activeSession.lessons.length > 1 && promptStatus !== 'loading' && (
+                                    <div className="flex items-center space-x-2 text-sm text-gray-400">
+                                        <label htmlFor="saved-lessons">{t('lesson.savedLessons')}</label>
+                                        <select
+                                            id="saved-lessons"
+                                            className="flex-1 p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                            value={currentLessonId ?? ''}
+                                            onChange={(e) => {
+                                                const lesson = activeSession.lessons.find(item => item.id === e.target.value);
+                                                if (lesson) showLesson(lesson);
+                                            }}
+                                        >
+                                            <option value="" disabled>—</option>
+                                            {activeSession.lessons.map(lesson => (
+                                                <option key={lesson.id} value={lesson.id}>
+                                                    {new Date(lesson.createdAt).toLocaleString(locale)} · {lesson.prompt.slice(0, 60)}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                )}
+
+                                {(promptResponse || promptStatus === 'loading') && (
+                                    <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-inner prose prose-invert prose-p:text-gray-300 prose-headings:text-teal-400 max-w-none">
+                                        <div className="flex justify-between items-center mb-2 not-prose">
+                                            <h2 className="text-lg font-semibold text-teal-400">{t('lesson.resultTitle')}</h2>
+                                            <div className="flex items-center space-x-2">
+                                                {promptStatus !== 'loading' && (
+                                                    <ExportButtons formats={LESSON_EXPORT_FORMATS} onExport={handleLessonExport} accent="teal" />
+                                                )}
+                                                <button 
+                                                    onClick={handlePromptCopy}
+                                                    className="flex items-center space-x-2 px-3 py-1.5 text-sm rounded-md font-medium transition-colors
+                                                               bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 
+                                                               focus:ring-offset-2 focus:ring-offset-gray-800 focus:ring-teal-500"
+                                                >
+                                                    {promptCopied ? <CheckIcon /> : <ClipboardIcon />}
+                                                    <span>{promptCopied ? t('common.copied') : t('common.copy')}</span>
+                                                </button>
+                                            </div>
+                                        </div>
+                                        {promptStatus === 'loading' && regeneratingSection === null ? (
+                                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{promptResponse}</ReactMarkdown>
+                                        ) : (
+                                            <LessonEditor
+                                                key={currentLessonId ?? 'unsaved'}
+                                                content={promptResponse}
+                                                onChange={updateLessonContent}
+                                                onRegenerateSection={handleRegenerateSection}
+                                                regeneratingIndex={regeneratingSection}
+                                                disabled={promptStatus === 'loading'}
+                                            />
+                                        )}
+                                    </div>
+                                )}
+
+                                <QuizPanel
+                                    quiz={quiz}
+                                    questionCount={quizQuestionCount}
+                                    onQuestionCountChange={setQuizQuestionCount}
+                                    onGenerate={handleGenerateQuiz}
+                                    onCancel={handleCancelQuiz}
+                                    onExport={handleQuizExport}
+                                    loading={quizLoading}
+                                    error={quizError}
+                                    estimate={quizEstimate ? formatUsageEstimate(quizEstimate, usage.prices, locale) : undefined}
+                                />
+                                </>
+                            )}
+                            {assistantTab === 'chat' && (
+                                <ChatPanel
+                                    threads={activeSession?.threads ?? []}
+                                    activeThreadId={activeThreadId}
+                                    onSelectThread={handleSelectThread}
+                                    onDeleteThread={handleDeleteThread}
+                                    segments={segments}
+                                    onCite={handleCite}
+                                    draft={chatDraft}
+                                    onDraftChange={setChatDraft}
+                                    onSend={handleChatSend}
+                                    onCancel={handleCancelChat}
+                                    loading={chatLoading}
+                                    pendingQuestion={pendingQuestion}
+                                    streamingAnswer={streamingAnswer}
+                                    error={chatError}
+                                />
+                            )}
+                        </div>
+                    )}
+                </main>
+
+                {showTemplateManager && (
+                    <TemplateManager
+                        templates={templates}
+                        selectedTemplateId={selectedTemplate.id}
+                        onTemplatesChange={handleTemplatesChange}
+                        onSelect={handleTemplateSelect}
+                        onClose={() => setShowTemplateManager(false)}
+                    />
+                )}
+                {showApiKeyDialog && (
+                    <ApiKeyDialog
+                        current={storedGeminiKey}
+                        onSave={handleSaveGeminiKey}
+                        onRemove={handleRemoveGeminiKey}
+                        onClose={() => setShowApiKeyDialog(false)}
+                    />
                 )}
-            </main>
+            </div>
         </div>
     );
 };
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { ApiKeyPersistence, StoredApiKey } from '../services/apiKeyStore';
+import { useI18n } from '../i18n/I18nProvider';
+import { XCircleIcon } from './Icons';
+
+interface ApiKeyDialogProps {
+    current: StoredApiKey | null;
+    onSave: (key: StoredApiKey) => void;
+    onRemove: () => void;
+    onClose: () => void;
+}
+
+const buttonClassName = "px-3 py-1.5 text-xs rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+/** Lets the user enter the Gemini API key at runtime, so that it never has to be part of the build. */
+const ApiKeyDialog: React.FC<ApiKeyDialogProps> = ({ current, onSave, onRemove, onClose }) => {
+    const { t } = useI18n();
+    const [key, setKey] = useState<string>(current?.key ?? '');
+    const [persistence, setPersistence] = useState<ApiKeyPersistence>(current?.persistence ?? 'session');
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        if (!key.trim()) return;
+        onSave({ key: key.trim(), persistence });
+        onClose();
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t('apiKey.title')}>
+            <form onSubmit={handleSubmit} className="w-full max-w-md bg-gray-800 rounded-lg border border-gray-700 shadow-xl">
+                <div className="flex justify-between items-center p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-semibold text-cyan-400">{t('apiKey.title')}</h2>
+                    <button type="button" onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full focus:outline-none focus:ring-2 focus:ring-cyan-500" aria-label={t('common.close')}>
+                        <XCircleIcon />
+                    </button>
+                </div>
+                <div className="p-4 space-y-3 text-sm">
+                    <p className="text-xs text-gray-400">{t('apiKey.explanation')}</p>
+                    <label className="block text-xs text-gray-400">
+                        {t('apiKey.key')}
+                        <input
+                            type="password"
+                            autoComplete="off"
+                            autoFocus
+                            className="w-full p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm font-mono focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                            placeholder="AIza..."
+                            value={key}
+                            onChange={(e) => setKey(e.target.value)}
+                        />
+                    </label>
+                    <label className="flex items-start space-x-2 text-gray-300">
+                        <input
+                            type="checkbox"
+                            className="mt-1"
+                            checked={persistence === 'local'}
+                            onChange={(e) => setPersistence(e.target.checked ? 'local' : 'session')}
+                        />
+                        <span>
+                            {t('apiKey.remember')}
+                            <span className="block text-xs text-gray-500">{t('apiKey.rememberHint')}</span>
+                        </span>
+                    </label>
+                    <p className="text-xs text-gray-500">
+                        <a href="https://aistudio.google.com/apikey" target="_blank" rel="noreferrer" className="text-cyan-400 hover:underline">{t('apiKey.getKey')}</a>
+                        {' · '}{t('apiKey.proxyHint')}
+                    </p>
+                </div>
+                <div className="flex justify-between gap-2 p-4 border-t border-gray-700">
+                    <button
+                        type="button"
+                        className={buttonClassName}
+                        onClick={() => { onRemove(); onClose(); }}
+                        disabled={!current}
+                    >
+                        {t('apiKey.remove')}
+                    </button>
+                    <div className="flex gap-2">
+                        <button type="button" className={buttonClassName} onClick={onClose}>{t('common.cancel')}</button>
+                        <button
+                            type="submit"
+                            disabled={!key.trim()}
+                            className="px-4 py-1.5 text-sm rounded-full font-semibold text-white bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                        >
+                            {t('common.save')}
+                        </button>
+                    </div>
+                </div>
+            </form>
+        </div>
+    );
+};
+
+export default ApiKeyDialog;
@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { decodeAudioFile, toMono } from '../utils/audio';
+import { isVideoFile } from '../utils/files';
+import {
+    PREPROCESS_SAMPLE_RATES,
+    PreprocessOptions,
+    computePeaks,
+    detectSilences,
+    planKeptRanges,
+    totalDuration,
+} from '../utils/preprocess';
+import { formatTimestamp } from '../utils/transcript';
+import { MessageKey } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+export interface PreprocessSummary {
+    /** Length of the original recording in seconds. */
+    duration: number;
+    /** Length of the audio left after trimming and silence removal. */
+    keptDuration: number;
+}
+
+interface AudioPreprocessPanelProps {
+    file: File;
+    options: PreprocessOptions;
+    onChange: (options: PreprocessOptions) => void;
+    /** Reports the effect of the current options once the preview has been analysed. */
+    onSummaryChange: (summary: PreprocessSummary | null) => void;
+    disabled?: boolean;
+}
+
+interface Preview {
+    samples: Float32Array;
+    duration: number;
+    peaks: number[];
+}
+
+/** The preview only needs to be precise enough to find pauses and draw the waveform. */
+const PREVIEW_SAMPLE_RATE = 8000;
+const WAVEFORM_BUCKETS = 600;
+const WAVEFORM_HEIGHT = 64;
+/** The trim handles never get closer than this. */
+const MIN_KEPT_SECONDS = 1;
+
+const inputClassName = "p-1 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const AudioPreprocessPanel: React.FC<AudioPreprocessPanelProps> = ({ file, options, onChange, onSummaryChange, disabled = false }) => {
+    const { t, tp } = useI18n();
+    const [preview, setPreview] = useState<Preview | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [previewError, setPreviewError] = useState<MessageKey | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const waveformRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setPreview(null);
+        setPreviewError(null);
+        setLoading(true);
+        decodeAudioFile(file, PREVIEW_SAMPLE_RATE)
+            .then(buffer => {
+                if (cancelled) return;
+                const samples = toMono(buffer);
+                setPreview({ samples, duration: buffer.duration, peaks: computePeaks(samples, WAVEFORM_BUCKETS) });
+            })
+            .catch(err => {
+                console.warn('Could not decode the audio for the preview.', err);
+                if (!cancelled) {
+                    setPreviewError(isVideoFile(file) ? 'preprocess.videoUndecodable' : 'preprocess.audioUndecodable');
+                }
+            })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    const silences = useMemo(
+        () => preview && options.removeSilence
+            ? detectSilences(preview.samples, PREVIEW_SAMPLE_RATE, options.silenceThresholdDb, options.minSilenceSeconds)
+            : [],
+        [preview, options.removeSilence, options.silenceThresholdDb, options.minSilenceSeconds],
+    );
+    const keptRanges = useMemo(
+        () => preview ? planKeptRanges(preview.duration, options, silences) : [],
+        [preview, options, silences],
+    );
+
+    useEffect(() => {
+        onSummaryChange(preview ? { duration: preview.duration, keptDuration: totalDuration(keptRanges) } : null);
+    }, [preview, keptRanges, onSummaryChange]);
+
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        const context = canvas?.getContext('2d');
+        if (!canvas || !context || !preview) return;
+        context.clearRect(0, 0, canvas.width, canvas.height);
+        context.fillStyle = '#22d3ee';
+        const middle = canvas.height / 2;
+        preview.peaks.forEach((peak, x) => {
+            const height = Math.max(1, peak * canvas.height);
+            context.fillRect(x, middle - height / 2, 1, height);
+        });
+    }, [preview]);
+
+    if (loading) return <p className="text-xs text-gray-400 animate-pulse">{t('preprocess.analysing')}</p>;
+    if (previewError || !preview) return previewError ? <p className="text-xs text-yellow-300">{t(previewError)}</p> : null;
+
+    const { duration } = preview;
+    const trimEnd = options.trimEnd ?? duration;
+    const percent = (time: number) => `${(time / duration) * 100}%`;
+
+    const timeAt = (clientX: number) => {
+        const rect = waveformRef.current!.getBoundingClientRect();
+        return Math.max(0, Math.min(duration, ((clientX - rect.left) / rect.width) * duration));
+    };
+
+    const moveHandle = (handle: 'start' | 'end', time: number) => {
+        if (handle === 'start') {
+            onChange({ ...options, trimStart: Math.min(time, trimEnd - MIN_KEPT_SECONDS) });
+        } else {
+            const end = Math.max(time, options.trimStart + MIN_KEPT_SECONDS);
+            onChange({ ...options, trimEnd: end >= duration ? null : end });
+        }
+    };
+
+    const renderHandle = (handle: 'start' | 'end') => (
+        <div
+            role="slider"
+            tabIndex={disabled ? -1 : 0}
+            aria-label={handle === 'start' ? t('preprocess.trimStart') : t('preprocess.trimEnd')}
+            aria-valuemin={0}
+            aria-valuemax={Math.round(duration)}
+            aria-valuenow={Math.round(handle === 'start' ? options.trimStart : trimEnd)}
+            aria-valuetext={formatTimestamp(handle === 'start' ? options.trimStart : trimEnd)}
+            className={`absolute top-0 bottom-0 w-2 -ml-1 bg-yellow-400 rounded cursor-ew-resize focus:outline-none focus:ring-2 focus:ring-yellow-200 ${disabled ? 'pointer-events-none opacity-50' : ''}`}
+            style={{ left: percent(handle === 'start' ? options.trimStart : trimEnd) }}
+            onPointerDown={(e) => e.currentTarget.setPointerCapture(e.pointerId)}
+            onPointerMove={(e) => {
+                if (e.currentTarget.hasPointerCapture(e.pointerId)) moveHandle(handle, timeAt(e.clientX));
+            }}
+            onKeyDown={(e) => {
+                const step = e.shiftKey ? 10 : 1;
+                const current = handle === 'start' ? options.trimStart : trimEnd;
+                if (e.key === 'ArrowLeft') moveHandle(handle, Math.max(0, current - step));
+                if (e.key === 'ArrowRight') moveHandle(handle, Math.min(duration, current + step));
+            }}
+        />
+    );
+
+    return (
+        <div className="space-y-3 text-sm">
+            <div ref={waveformRef} className="relative h-16 bg-gray-900 rounded-md border border-gray-700 select-none touch-none">
+                <canvas ref={canvasRef} width={WAVEFORM_BUCKETS} height={WAVEFORM_HEIGHT} className="absolute inset-0 w-full h-full" />
+                {silences.map(silence => (
+                    <div
+                        key={silence.start}
+                        className="absolute top-0 bottom-0 bg-red-500/25"
+                        style={{ left: percent(silence.start), width: percent(silence.end - silence.start) }}
+                        title={t('preprocess.silence', { start: formatTimestamp(silence.start), end: formatTimestamp(silence.end) })}
+                    />
+                ))}
+                <div className="absolute top-0 bottom-0 left-0 bg-gray-900/80" style={{ width: percent(options.trimStart) }} />
+                <div className="absolute top-0 bottom-0 right-0 bg-gray-900/80" style={{ width: percent(duration - trimEnd) }} />
+                {renderHandle('start')}
+                {renderHandle('end')}
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-gray-400">
+                <span>
+                    {t('preprocess.keeping', { start: formatTimestamp(options.trimStart), end: formatTimestamp(trimEnd) })}
+                    {options.removeSilence && silences.length > 0 && tp('preprocess.pausesShortened', silences.length)}
+                </span>
+                <button
+                    className="text-gray-500 hover:text-white disabled:opacity-50"
+                    onClick={() => onChange({ ...options, trimStart: 0, trimEnd: null })}
+                    disabled={disabled || (options.trimStart === 0 && options.trimEnd === null)}
+                >
+                    {t('preprocess.resetTrim')}
+                </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-gray-400">
+                <label className="flex items-center space-x-2">
+                    <input
+                        type="checkbox"
+                        checked={options.removeSilence}
+                        disabled={disabled}
+                        onChange={(e) => onChange({ ...options, removeSilence: e.target.checked })}
+                    />
+                    <span>{t('preprocess.removeSilence')}</span>
+                </label>
+                {options.removeSilence && (
+                    <>
+                        <label className="flex items-center space-x-2">
+                            <span>{t('preprocess.below')}</span>
+                            <input
+                                type="range"
+                                min={-70}
+                                max={-20}
+                                step={1}
+                                value={options.silenceThresholdDb}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...options, silenceThresholdDb: Number(e.target.value) })}
+                            />
+                            <span className="w-14 text-right font-mono text-xs">{options.silenceThresholdDb} dB</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                            <span>{t('preprocess.longerThan')}</span>
+                            <input
+                                type="number"
+                                min={0.5}
+                                max={30}
+                                step={0.5}
+                                value={options.minSilenceSeconds}
+                                disabled={disabled}
+                                onChange={(e) => onChange({ ...options, minSilenceSeconds: Math.max(0.5, Number(e.target.value) || 0.5) })}
+                                className={`${inputClassName} w-16`}
+                            />
+                            <span>{t('preprocess.seconds')}</span>
+                        </label>
+                    </>
+                )}
+                <label className="flex items-center space-x-2">
+                    <span>{t('preprocess.sampleRate')}</span>
+                    <select
+                        value={options.sampleRate}
+                        disabled={disabled}
+                        onChange={(e) => onChange({ ...options, sampleRate: Number(e.target.value) })}
+                        className={inputClassName}
+                    >
+                        {PREPROCESS_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{t('preprocess.mono', { rate: rate / 1000 })}</option>)}
+                    </select>
+                </label>
+            </div>
+            <p className="text-xs text-gray-500">
+                {t('preprocess.timelineNote')}
+            </p>
+        </div>
+    );
+};
+
+export default AudioPreprocessPanel;
@@ -0,0 +1,128 @@
+import React from 'react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { useI18n } from '../i18n/I18nProvider';
+import { TrashIcon } from './Icons';
+
+interface BatchQueuePanelProps {
+    jobs: BatchJob[];
+    concurrency: number;
+    onConcurrencyChange: (value: number) => void;
+    paused: boolean;
+    onPausedChange: (paused: boolean) => void;
+    onCancel: (id: string) => void;
+    onCancelAll: () => void;
+    onRetry: (id: string) => void;
+    onRemove: (id: string) => void;
+    onClearFinished: () => void;
+    onOpenResult: (job: BatchJob) => void;
+    autoLesson: boolean;
+    onAutoLessonChange: (value: boolean) => void;
+    lessonInstructions: string;
+    onLessonInstructionsChange: (value: string) => void;
+    templateName: string;
+}
+
+const STATUS_CLASSES: Record<BatchJobStatus, string> = {
+    queued: 'text-gray-400',
+    running: 'text-cyan-300',
+    done: 'text-green-400',
+    error: 'text-red-400',
+    cancelled: 'text-gray-500',
+};
+
+const buttonClassName = "px-2.5 py-1 text-xs rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({
+    jobs, concurrency, onConcurrencyChange, paused, onPausedChange, onCancel, onCancelAll, onRetry, onRemove,
+    onClearFinished, onOpenResult, autoLesson, onAutoLessonChange, lessonInstructions, onLessonInstructionsChange, templateName,
+}) => {
+    const { t } = useI18n();
+    const finished = jobs.filter(job => job.status === 'done').length;
+    const active = jobs.some(job => job.status === 'queued' || job.status === 'running');
+
+    return (
+        <div className="w-full max-w-4xl bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <h2 className="text-lg font-semibold text-cyan-400">{t('batch.title')} <span className="text-sm text-gray-400">{t('batch.progress', { done: finished, total: jobs.length })}</span></h2>
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <label className="flex items-center space-x-1 text-gray-400">
+                        <span>{t('batch.parallelJobs')}</span>
+                        <input
+                            type="number"
+                            min={1}
+                            max={8}
+                            value={concurrency}
+                            onChange={(e) => onConcurrencyChange(Math.max(1, Math.min(8, Number(e.target.value) || 1)))}
+                            className="w-14 p-1 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                        />
+                    </label>
+                    <button className={buttonClassName} onClick={() => onPausedChange(!paused)} disabled={!active && !paused}>
+                        {paused ? t('batch.resume') : t('batch.pause')}
+                    </button>
+                    <button className={buttonClassName} onClick={onCancelAll} disabled={!active}>{t('batch.cancelAll')}</button>
+                    <button className={buttonClassName} onClick={onClearFinished}>{t('batch.clearFinished')}</button>
+                </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+                <label className="flex items-center space-x-2">
+                    <input type="checkbox" checked={autoLesson} onChange={(e) => onAutoLessonChange(e.target.checked)} />
+                    <span>{t('batch.autoLesson', { template: templateName })}</span>
+                </label>
+                {autoLesson && (
+                    <input
+                        className="flex-1 min-w-[12rem] p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                        placeholder={t('batch.instructionsPlaceholder')}
+                        value={lessonInstructions}
+                        onChange={(e) => onLessonInstructionsChange(e.target.value)}
+                    />
+                )}
+            </div>
+
+            {paused && <p className="text-xs text-yellow-300">{t('batch.pausedHint')}</p>}
+
+            <ul className="divide-y divide-gray-700 max-h-80 overflow-y-auto">
+                {jobs.map(job => (
+                    <li key={job.id} className="py-2 flex items-center gap-3 text-sm">
+                        <div className="flex-1 min-w-0">
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="truncate text-gray-200" title={job.file.webkitRelativePath || job.file.name}>{job.file.name}</span>
+                                <span className={`text-xs whitespace-nowrap ${STATUS_CLASSES[job.status]}`}>
+                                    {t(`batch.status.${job.status}`)}
+                                    {job.status === 'running' && ` ${Math.round(job.progress * 100)}%`}
+                                    {job.lessonStatus === 'running' && t('batch.lessonRunning')}
+                                    {job.lessonStatus === 'done' && t('batch.lessonDone')}
+                                    {job.lessonStatus === 'error' && <span className="text-red-400">{t('batch.lessonFailed')}</span>}
+                                </span>
+                            </div>
+                            {job.status === 'running' && (
+                                <div className="w-full bg-gray-700 rounded-full h-1.5 mt-1 overflow-hidden">
+                                    <div className="bg-cyan-500 h-1.5 rounded-full transition-all duration-500" style={{ width: `${job.progress * 100}%` }}></div>
+                                </div>
+                            )}
+                            {(job.error || job.lessonError) && (
+                                <p className="text-xs text-red-400 truncate" title={job.error ?? job.lessonError}>{job.error ?? job.lessonError}</p>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-1">
+                            {job.status === 'done' && job.sessionId && (
+                                <button className={buttonClassName} onClick={() => onOpenResult(job)}>{t('batch.open')}</button>
+                            )}
+                            {(job.status === 'error' || job.status === 'cancelled') && (
+                                <button className={buttonClassName} onClick={() => onRetry(job.id)}>{t('batch.retry')}</button>
+                            )}
+                            {(job.status === 'queued' || job.status === 'running') && (
+                                <button className={buttonClassName} onClick={() => onCancel(job.id)}>{t('common.cancel')}</button>
+                            )}
+                            <button onClick={() => onRemove(job.id)} className="p-1 text-gray-400 hover:text-red-400" title={t('batch.removeFromQueue')}>
+                                <TrashIcon />
+                            </button>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
+
+export default BatchQueuePanel;
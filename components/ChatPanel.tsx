@@ -0,0 +1,155 @@
+import React, { useEffect, useRef } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { ChatThread, TranscriptSegment } from '../types';
+import { linkCitations, parseCitationHref } from '../utils/citations';
+import { findActiveSegmentIndex } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+import { TrashIcon } from './Icons';
+
+interface ChatPanelProps {
+    threads: ChatThread[];
+    /** Null while composing the first question of a new thread. */
+    activeThreadId: string | null;
+    onSelectThread: (id: string | null) => void;
+    onDeleteThread: (id: string) => void;
+    segments: TranscriptSegment[];
+    /** Called when a timestamp citation in an answer is clicked. */
+    onCite: (time: number) => void;
+    draft: string;
+    onDraftChange: (draft: string) => void;
+    onSend: () => void;
+    onCancel: () => void;
+    loading: boolean;
+    /** The question being answered, shown until the answer is complete. */
+    pendingQuestion: string | null;
+    streamingAnswer: string;
+    error: string | null;
+}
+
+const buttonClassName = "px-2.5 py-1 text-xs rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const ChatPanel: React.FC<ChatPanelProps> = ({
+    threads, activeThreadId, onSelectThread, onDeleteThread, segments, onCite, draft, onDraftChange, onSend, onCancel,
+    loading, pendingQuestion, streamingAnswer, error,
+}) => {
+    const { t } = useI18n();
+    const messagesEndRef = useRef<HTMLDivElement>(null);
+    const activeThread = threads.find(thread => thread.id === activeThreadId) ?? null;
+
+    useEffect(() => {
+        messagesEndRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [activeThread?.messages.length, pendingQuestion, streamingAnswer]);
+
+    // Citation links become buttons that jump to the cited line; the line is shown on hover.
+    const markdownComponents: Components = {
+        a: ({ href, children }) => {
+            const time = parseCitationHref(href);
+            if (time === null) return <a href={href} target="_blank" rel="noreferrer">{children}</a>;
+            const segment = segments[findActiveSegmentIndex(segments, time)];
+            return (
+                <button
+                    onClick={() => onCite(time)}
+                    className="px-1 rounded bg-cyan-900/60 text-cyan-300 font-mono text-xs hover:bg-cyan-800 no-underline"
+                    title={segment ? `${segment.speaker}: ${segment.text}` : undefined}
+                >
+                    {children}
+                </button>
+            );
+        },
+    };
+
+    const renderAnswer = (text: string) => (
+        <div className="prose prose-invert prose-sm prose-p:text-gray-300 max-w-none">
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>{linkCitations(text)}</ReactMarkdown>
+        </div>
+    );
+
+    const renderQuestion = (text: string, key?: string) => (
+        <div key={key} className="flex justify-end">
+            <p className="max-w-[85%] px-3 py-2 rounded-lg bg-cyan-900/50 text-gray-100 text-sm whitespace-pre-wrap">{text}</p>
+        </div>
+    );
+
+    return (
+        <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+            <div className="flex items-center gap-2">
+                <select
+                    className="flex-1 min-w-0 p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                    value={activeThreadId ?? ''}
+                    onChange={(e) => onSelectThread(e.target.value || null)}
+                    disabled={loading}
+                    aria-label={t('chat.conversation')}
+                >
+                    <option value="">{t('chat.newConversation')}</option>
+                    {threads.map(thread => (
+                        <option key={thread.id} value={thread.id}>
+                            {thread.title} ({Math.ceil(thread.messages.length / 2)})
+                        </option>
+                    ))}
+                </select>
+                <button className={buttonClassName} onClick={() => onSelectThread(null)} disabled={loading || !activeThread}>{t('chat.new')}</button>
+                {activeThread && (
+                    <button
+                        onClick={() => window.confirm(t('chat.confirmDelete', { title: activeThread.title })) && onDeleteThread(activeThread.id)}
+                        disabled={loading}
+                        className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-50"
+                        title={t('chat.deleteConversation')}
+                    >
+                        <TrashIcon />
+                    </button>
+                )}
+            </div>
+
+            <div className="max-h-[28rem] overflow-y-auto space-y-3 pr-1">
+                {!activeThread && !pendingQuestion && (
+                    <p className="text-sm text-gray-500">
+                        {t('chat.intro')}
+                    </p>
+                )}
+                {activeThread?.messages.map(message => message.role === 'user'
+                    ? renderQuestion(message.text, message.id)
+                    : <div key={message.id}>{renderAnswer(message.text)}</div>
+                )}
+                {pendingQuestion && renderQuestion(pendingQuestion)}
+                {loading && (streamingAnswer ? renderAnswer(streamingAnswer) : <p className="text-sm text-gray-500 animate-pulse">{t('chat.thinking')}</p>)}
+                <div ref={messagesEndRef} />
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            <div className="flex items-end gap-2">
+                <textarea
+                    className="flex-1 p-2 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-y"
+                    rows={2}
+                    placeholder={activeThread ? t('chat.followUpPlaceholder') : t('chat.questionPlaceholder')}
+                    value={draft}
+                    onChange={(e) => onDraftChange(e.target.value)}
+                    onKeyDown={(e) => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                            e.preventDefault();
+                            if (!loading && draft.trim()) onSend();
+                        }
+                    }}
+                    disabled={loading}
+                    aria-label={t('chat.questionLabel')}
+                />
+                {loading ? (
+                    <button className="px-4 py-2 rounded-md text-sm font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600" onClick={onCancel}>
+                        {t('common.cancel')}
+                    </button>
+                ) : (
+                    <button
+                        className="px-4 py-2 rounded-md text-sm font-semibold text-white bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                        onClick={onSend}
+                        disabled={!draft.trim()}
+                    >
+                        {t('chat.ask')}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ChatPanel;
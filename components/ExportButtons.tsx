@@ -0,0 +1,32 @@
+import React from 'react';
+import { useI18n } from '../i18n/I18nProvider';
+import { DownloadIcon } from './Icons';
+
+interface ExportButtonsProps<F extends string> {
+    formats: { format: F; label: string }[];
+    onExport: (format: F) => void;
+    accent?: 'cyan' | 'teal';
+}
+
+const ExportButtons = <F extends string>({ formats, onExport, accent = 'cyan' }: ExportButtonsProps<F>) => {
+    const { t } = useI18n();
+    return (
+        <div className="flex flex-wrap items-center gap-1">
+            {formats.map(({ format, label }) => (
+                <button
+                    key={format}
+                    onClick={() => onExport(format)}
+                    title={t('common.download', { label })}
+                    className={`flex items-center space-x-1 px-2 py-1 text-xs rounded-md font-medium transition-colors
+                               bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2
+                               focus:ring-offset-2 focus:ring-offset-gray-800 ${accent === 'teal' ? 'focus:ring-teal-500' : 'focus:ring-cyan-500'}`}
+                >
+                    <DownloadIcon />
+                    <span>{label}</span>
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default ExportButtons;
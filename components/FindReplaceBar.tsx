@@ -0,0 +1,66 @@
+import React, { useMemo, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { SearchOptions, buildSearchRegex, countMatches } from '../utils/findReplace';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface FindReplaceBarProps {
+    segments: TranscriptSegment[];
+    onReplaceAll: (pattern: RegExp, replacement: string) => void;
+}
+
+const inputClassName = "flex-1 min-w-0 p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+
+const FindReplaceBar: React.FC<FindReplaceBarProps> = ({ segments, onReplaceAll }) => {
+    const { t, tp } = useI18n();
+    const [query, setQuery] = useState('');
+    const [replacement, setReplacement] = useState('');
+    const [options, setOptions] = useState<SearchOptions>({ regex: false, wholeWord: false, matchCase: false });
+
+    const { pattern, error } = useMemo(() => {
+        if (!query) return { pattern: null, error: null };
+        try {
+            return { pattern: buildSearchRegex(query, options), error: null };
+        } catch (err: any) {
+            return { pattern: null, error: err.message as string };
+        }
+    }, [query, options]);
+
+    const matches = pattern ? countMatches(segments, pattern) : 0;
+
+    const toggle = (key: keyof SearchOptions, label: string, title: string) => (
+        <button
+            onClick={() => setOptions({ ...options, [key]: !options[key] })}
+            className={`px-2 py-1 text-xs font-mono rounded-md border ${options[key] ? 'border-cyan-500 text-cyan-300 bg-cyan-900/40' : 'border-gray-600 text-gray-400 hover:bg-gray-700'}`}
+            title={title}
+            aria-pressed={options[key]}
+        >
+            {label}
+        </button>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center gap-2">
+                <input className={inputClassName} placeholder={t('find.find')} value={query} onChange={(e) => setQuery(e.target.value)} aria-label={t('find.find')} />
+                {toggle('matchCase', 'Aa', t('find.matchCase'))}
+                {toggle('wholeWord', 'ab', t('find.wholeWord'))}
+                {toggle('regex', '.*', t('find.regex'))}
+            </div>
+            <div className="flex items-center gap-2">
+                <input className={inputClassName} placeholder={t('find.replaceWith')} value={replacement} onChange={(e) => setReplacement(e.target.value)} aria-label={t('find.replaceWith')} />
+                <button
+                    onClick={() => pattern && onReplaceAll(pattern, options.regex ? replacement : replacement.replace(/\$/g, '$$$$'))}
+                    disabled={!pattern || matches === 0}
+                    className="px-3 py-1.5 text-xs rounded-md font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {t('find.replaceAll')}
+                </button>
+            </div>
+            <p className={`text-xs ${error ? 'text-red-400' : 'text-gray-500'}`}>
+                {error ?? (query ? tp('find.matches', matches) : t('find.regexHint'))}
+            </p>
+        </div>
+    );
+};
+
+export default FindReplaceBar;
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { createId } from '../utils/id';
+import { useI18n } from '../i18n/I18nProvider';
+import { TrashIcon } from './Icons';
+
+interface GlossaryPanelProps {
+    glossary: GlossaryEntry[];
+    onChange: (glossary: GlossaryEntry[]) => void;
+    onApply: () => void;
+}
+
+const inputClassName = "flex-1 min-w-0 p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, onChange, onApply }) => {
+    const { t } = useI18n();
+    const [find, setFind] = useState('');
+    const [replace, setReplace] = useState('');
+
+    const addEntry = () => {
+        if (!find.trim() || !replace.trim()) return;
+        onChange([...glossary, { id: createId(), find: find.trim(), replace: replace.trim() }]);
+        setFind('');
+        setReplace('');
+    };
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+                {t('glossary.hint')}
+            </p>
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {glossary.map(entry => (
+                    <li key={entry.id} className="flex items-center gap-2 text-sm">
+                        <span className="flex-1 truncate text-gray-400">{entry.find}</span>
+                        <span className="text-gray-500">→</span>
+                        <span className="flex-1 truncate text-gray-200">{entry.replace}</span>
+                        <button
+                            onClick={() => onChange(glossary.filter(item => item.id !== entry.id))}
+                            className="p-1 text-gray-400 hover:text-red-400"
+                            title={t('common.remove')}
+                        >
+                            <TrashIcon />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <div className="flex items-center gap-2">
+                <input className={inputClassName} placeholder={t('glossary.heardAs')} value={find} onChange={(e) => setFind(e.target.value)} />
+                <input
+                    className={inputClassName}
+                    placeholder={t('glossary.correctTerm')}
+                    value={replace}
+                    onChange={(e) => setReplace(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addEntry()}
+                />
+                <button
+                    onClick={addEntry}
+                    disabled={!find.trim() || !replace.trim()}
+                    className="px-3 py-1.5 text-xs rounded-md font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {t('common.add')}
+                </button>
+            </div>
+            <button
+                onClick={onApply}
+                disabled={glossary.length === 0}
+                className="px-3 py-1.5 text-xs rounded-md font-medium bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                {t('glossary.apply')}
+            </button>
+        </div>
+    );
+};
+
+export default GlossaryPanel;
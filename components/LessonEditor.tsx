@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { composeLesson, moveSection, parseLessonSections, replaceSectionBody } from '../utils/lessonSections';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface LessonEditorProps {
+    content: string;
+    onChange: (content: string) => void;
+    onRegenerateSection: (index: number) => void;
+    /** The section currently being rewritten by the model, if any. */
+    regeneratingIndex: number | null;
+    disabled?: boolean;
+}
+
+const controlClassName = "px-2 py-1 text-xs rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-40";
+
+/**
+ * Shows a lesson section by section, with controls to edit, regenerate and reorder each one.
+ * Lessons that do not follow the sectioned structure are shown as plain Markdown.
+ */
+const LessonEditor: React.FC<LessonEditorProps> = ({ content, onChange, onRegenerateSection, regeneratingIndex, disabled = false }) => {
+    const { t } = useI18n();
+    const lesson = useMemo(() => parseLessonSections(content), [content]);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [draft, setDraft] = useState<string>('');
+
+    if (!lesson) return <ReactMarkdown remarkPlugins={[remarkGfm]}>{content}</ReactMarkdown>;
+
+    const busy = disabled || regeneratingIndex !== null;
+
+    const startEditing = (index: number) => {
+        setEditingIndex(index);
+        setDraft(lesson.sections[index].body);
+    };
+
+    const saveEditing = () => {
+        if (editingIndex === null) return;
+        onChange(composeLesson(replaceSectionBody(lesson, editingIndex, draft.trim())));
+        setEditingIndex(null);
+    };
+
+    const move = (index: number, offset: number) => {
+        onChange(composeLesson(moveSection(lesson, index, index + offset)));
+        setEditingIndex(null);
+    };
+
+    return (
+        <div>
+            {lesson.preamble && <ReactMarkdown remarkPlugins={[remarkGfm]}>{lesson.preamble}</ReactMarkdown>}
+            {lesson.sections.map((section, index) => (
+                <section
+                    key={`${index}-${section.heading}`}
+                    className={`mt-4 pt-3 border-t border-gray-700 ${regeneratingIndex === index ? 'animate-pulse' : ''}`}
+                >
+                    <div className="not-prose flex flex-wrap items-center justify-between gap-2">
+                        <h3 className="text-base font-semibold text-teal-400">{index + 1}. {section.heading}</h3>
+                        <div className="flex items-center gap-1">
+                            <button className={controlClassName} onClick={() => move(index, -1)} disabled={busy || index === 0} aria-label={t('lesson.moveUp')}>↑</button>
+                            <button className={controlClassName} onClick={() => move(index, 1)} disabled={busy || index === lesson.sections.length - 1} aria-label={t('lesson.moveDown')}>↓</button>
+                            <button className={controlClassName} onClick={() => startEditing(index)} disabled={busy || editingIndex === index}>{t('lesson.edit')}</button>
+                            <button
+                                className={controlClassName}
+                                onClick={() => { setEditingIndex(null); onRegenerateSection(index); }}
+                                disabled={busy}
+                            >
+                                {regeneratingIndex === index ? t('lesson.writing') : t('lesson.regenerate')}
+                            </button>
+                        </div>
+                    </div>
+                    {editingIndex === index ? (
+                        <div className="not-prose mt-2">
+                            <textarea
+                                className="w-full p-2 bg-gray-900 border border-gray-600 rounded-md text-sm font-mono focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                                rows={Math.min(20, Math.max(4, draft.split('\n').length + 1))}
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                aria-label={t('lesson.sectionContent', { heading: section.heading })}
+                            />
+                            <div className="flex justify-end gap-2 mt-1">
+                                <button className={controlClassName} onClick={() => setEditingIndex(null)}>{t('lesson.discard')}</button>
+                                <button className={`${controlClassName} bg-teal-700 text-white hover:bg-teal-600`} onClick={saveEditing}>{t('common.save')}</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <ReactMarkdown remarkPlugins={[remarkGfm]}>{section.body}</ReactMarkdown>
+                    )}
+                </section>
+            ))}
+        </div>
+    );
+};
+
+export default LessonEditor;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { LibrarySession } from '../types';
+import { matchesSearch } from '../services/libraryStore';
+import { formatTimestamp } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+import { PencilIcon, TrashIcon } from './Icons';
+
+interface LibrarySidebarProps {
+    sessions: LibrarySession[];
+    activeSessionId: string | null;
+    onOpen: (session: LibrarySession) => void;
+    onRename: (session: LibrarySession, title: string) => void;
+    onDelete: (session: LibrarySession) => void;
+    disabled?: boolean;
+}
+
+const LibrarySidebar: React.FC<LibrarySidebarProps> = ({ sessions, activeSessionId, onOpen, onRename, onDelete, disabled }) => {
+    const { t, tp, locale } = useI18n();
+    const [query, setQuery] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftTitle, setDraftTitle] = useState('');
+
+    const visibleSessions = sessions.filter(session => matchesSearch(session, query));
+
+    const startRename = (session: LibrarySession) => {
+        setEditingId(session.id);
+        setDraftTitle(session.title);
+    };
+
+    const commitRename = (session: LibrarySession) => {
+        const title = draftTitle.trim();
+        if (title && title !== session.title) onRename(session, title);
+        setEditingId(null);
+    };
+
+    const handleDelete = (session: LibrarySession) => {
+        if (window.confirm(t('library.confirmDelete', { title: session.title }))) {
+            onDelete(session);
+        }
+    };
+
+    return (
+        <aside className="w-full md:w-72 md:min-h-full border-b md:border-b-0 md:border-r border-gray-700 bg-gray-800/50 p-3 flex flex-col space-y-3">
+            <h2 className="text-sm font-semibold text-cyan-400 uppercase tracking-wide">{t('library.title')}</h2>
+            <input
+                className="w-full p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                placeholder={t('library.search')}
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                aria-label={t('library.searchLabel')}
+            />
+            {visibleSessions.length === 0 && (
+                <p className="text-xs text-gray-500">
+                    {sessions.length === 0 ? t('library.empty') : t('library.noMatches')}
+                </p>
+            )}
+            <ul className="space-y-1 overflow-y-auto max-h-64 md:max-h-none">
+                {visibleSessions.map(session => {
+                    const duration = session.segments.length > 0 ? session.segments[session.segments.length - 1].end : 0;
+                    return (
+                        <li
+                            key={session.id}
+                            className={`group rounded-md p-2 text-sm ${session.id === activeSessionId ? 'bg-gray-700' : 'hover:bg-gray-700/50'}`}
+                        >
+                            {editingId === session.id ? (
+                                <input
+                                    autoFocus
+                                    className="w-full p-1 bg-gray-900 border border-gray-600 rounded text-sm focus:outline-none focus:ring-2 focus:ring-cyan-500"
+                                    value={draftTitle}
+                                    onChange={(e) => setDraftTitle(e.target.value)}
+                                    onBlur={() => commitRename(session)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename(session);
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    aria-label={t('library.sessionTitle')}
+                                />
+                            ) : (
+                                <div className="flex items-start justify-between space-x-2">
+                                    <button
+                                        onClick={() => onOpen(session)}
+                                        disabled={disabled}
+                                        className="flex-1 text-left overflow-hidden focus:outline-none disabled:cursor-not-allowed"
+                                    >
+                                        <span className="block truncate text-gray-200">{session.title}</span>
+                                        <span className="block text-xs text-gray-500">
+                                            {new Date(session.updatedAt).toLocaleDateString(locale)} · {formatTimestamp(duration)} · {tp('library.lessons', session.lessons.length)}
+                                        </span>
+                                    </button>
+                                    <div className="flex space-x-1 opacity-60 group-hover:opacity-100">
+                                        <button onClick={() => startRename(session)} className="p-1 text-gray-400 hover:text-white" title={t('library.rename')}>
+                                            <PencilIcon />
+                                        </button>
+                                        <button onClick={() => handleDelete(session)} disabled={disabled} className="p-1 text-gray-400 hover:text-red-400 disabled:cursor-not-allowed" title={t('library.delete')}>
+                                            <TrashIcon />
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </aside>
+    );
+};
+
+export default LibrarySidebar;
@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { MODEL_SUGGESTIONS, PROVIDER_IDS, ProviderId, ProviderSettings } from '../services/providers';
+import { ApiKeyPersistence } from '../services/apiKeyStore';
+import { CONTENT_LANGUAGES, languageName } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface ProviderSettingsPanelProps {
+    settings: ProviderSettings;
+    onChange: (settings: ProviderSettings) => void;
+    disabled?: boolean;
+    /** Where the Gemini key entered in the app is kept, or null when there is none. */
+    geminiKeyPersistence: ApiKeyPersistence | null;
+    onEditGeminiKey: () => void;
+}
+
+const inputClassName = "w-full p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange, disabled, geminiKeyPersistence, onEditGeminiKey }) => {
+    const { t, locale } = useI18n();
+    const [open, setOpen] = useState(false);
+    const suggestions = MODEL_SUGGESTIONS[settings.providerId];
+
+    const update = (changes: Partial<ProviderSettings>) => onChange({ ...settings, ...changes });
+
+    const handleProviderChange = (providerId: ProviderId) => {
+        update({
+            providerId,
+            transcriptionModel: MODEL_SUGGESTIONS[providerId].transcription[0],
+            generationModel: MODEL_SUGGESTIONS[providerId].generation[0],
+        });
+    };
+
+    return (
+        <div className="w-full max-w-2xl bg-gray-800 rounded-lg border border-gray-700">
+            <button
+                onClick={() => setOpen(!open)}
+                className="w-full flex justify-between items-center px-4 py-2 text-sm text-gray-300 hover:text-white focus:outline-none"
+                aria-expanded={open}
+            >
+                <span>
+                    {t('provider.summary')} <span className="font-semibold text-cyan-400">{t(`provider.label.${settings.providerId}`)}</span>
+                    <span className="text-gray-500"> · {settings.transcriptionModel} / {settings.generationModel}</span>
+                </span>
+                <span className="text-gray-500">{open ? '▲' : '▼'}</span>
+            </button>
+            {open && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 px-4 pb-4">
+                    <label className="text-xs text-gray-400 md:col-span-2">
+                        {t('provider.provider')}
+                        <select
+                            className={inputClassName}
+                            value={settings.providerId}
+                            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+                            disabled={disabled}
+                        >
+                            {PROVIDER_IDS.map(id => (
+                                <option key={id} value={id}>{t(`provider.label.${id}`)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="text-xs text-gray-400">
+                        {t('provider.transcriptionModel')}
+                        <input
+                            className={inputClassName}
+                            list="transcription-models"
+                            value={settings.transcriptionModel}
+                            onChange={(e) => update({ transcriptionModel: e.target.value })}
+                            disabled={disabled}
+                        />
+                        <datalist id="transcription-models">
+                            {suggestions.transcription.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                    </label>
+                    <label className="text-xs text-gray-400">
+                        {t('provider.lessonModel')}
+                        <input
+                            className={inputClassName}
+                            list="generation-models"
+                            value={settings.generationModel}
+                            onChange={(e) => update({ generationModel: e.target.value })}
+                            disabled={disabled}
+                        />
+                        <datalist id="generation-models">
+                            {suggestions.generation.map(model => <option key={model} value={model} />)}
+                        </datalist>
+                    </label>
+                    <label className="text-xs text-gray-400 md:col-span-2">
+                        {t('provider.transcriptionLanguage')}
+                        <select
+                            className={inputClassName}
+                            value={settings.transcriptionLanguage}
+                            onChange={(e) => update({ transcriptionLanguage: e.target.value })}
+                            disabled={disabled}
+                        >
+                            <option value="">{t('provider.autoDetect')}</option>
+                            {CONTENT_LANGUAGES.map(code => (
+                                <option key={code} value={code}>{languageName(code, locale)}</option>
+                            ))}
+                        </select>
+                    </label>
+                    {settings.providerId === 'gemini' && (
+                        <>
+                            <div className="text-xs text-gray-400">
+                                {t('provider.apiKey')}
+                                <div className="flex items-center justify-between gap-2 p-1.5">
+                                    <span className={geminiKeyPersistence || settings.geminiProxyUrl ? 'text-green-400' : 'text-yellow-300'}>
+                                        {settings.geminiProxyUrl
+                                            ? t('provider.keyStatus.proxy')
+                                            : t(`provider.keyStatus.${geminiKeyPersistence ?? 'none'}`)}
+                                    </span>
+                                    <button
+                                        onClick={onEditGeminiKey}
+                                        disabled={disabled || !!settings.geminiProxyUrl}
+                                        className="px-2 py-1 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50"
+                                    >
+                                        {geminiKeyPersistence ? t('provider.changeKey') : t('provider.enterKey')}
+                                    </button>
+                                </div>
+                            </div>
+                            <label className="text-xs text-gray-400">
+                                {t('provider.proxyUrl')}
+                                <input
+                                    className={inputClassName}
+                                    value={settings.geminiProxyUrl}
+                                    placeholder="http://localhost:8787/gemini"
+                                    onChange={(e) => update({ geminiProxyUrl: e.target.value.trim() })}
+                                    disabled={disabled}
+                                />
+                            </label>
+                            <p className="text-xs text-gray-500 md:col-span-2">{t('provider.proxyHint')}</p>
+                        </>
+                    )}
+                    {settings.providerId === 'openai' && (
+                        <>
+                            <label className="text-xs text-gray-400">
+                                {t('provider.serverUrl')}
+                                <input
+                                    className={inputClassName}
+                                    value={settings.openAIBaseUrl}
+                                    placeholder="http://localhost:8080/v1"
+                                    onChange={(e) => update({ openAIBaseUrl: e.target.value })}
+                                    disabled={disabled}
+                                />
+                            </label>
+                            <label className="text-xs text-gray-400">
+                                {t('provider.apiKeyOptional')}
+                                <input
+                                    className={inputClassName}
+                                    type="password"
+                                    value={settings.openAIApiKey}
+                                    onChange={(e) => update({ openAIApiKey: e.target.value })}
+                                    disabled={disabled}
+                                />
+                            </label>
+                        </>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ProviderSettingsPanel;
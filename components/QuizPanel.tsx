@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Quiz } from '../types';
+import { QUIZ_SIZES } from '../services/quizService';
+import { QuizExportFormat } from '../utils/export';
+import { useI18n } from '../i18n/I18nProvider';
+import ExportButtons from './ExportButtons';
+
+interface QuizPanelProps {
+    quiz: Quiz | null;
+    questionCount: number;
+    onQuestionCountChange: (count: number) => void;
+    onGenerate: () => void;
+    onCancel: () => void;
+    onExport: (format: QuizExportFormat) => void;
+    loading: boolean;
+    error: string | null;
+    /** Shown next to the button, e.g. the estimated usage. */
+    estimate?: string;
+    disabled?: boolean;
+}
+
+const QUIZ_EXPORT_FORMATS: { format: QuizExportFormat; label: string }[] = [
+    { format: 'gift', label: 'GIFT (Moodle)' },
+    { format: 'json', label: 'JSON' },
+];
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+const QuizPanel: React.FC<QuizPanelProps> = ({
+    quiz,
+    questionCount,
+    onQuestionCountChange,
+    onGenerate,
+    onCancel,
+    onExport,
+    loading,
+    error,
+    estimate,
+    disabled = false,
+}) => {
+    const { t } = useI18n();
+    const [showAnswers, setShowAnswers] = useState<boolean>(false);
+
+    return (
+        <div className="w-full bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-inner space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-teal-400">{t('quiz.title')}</h2>
+                {quiz && !loading && <ExportButtons formats={QUIZ_EXPORT_FORMATS} onExport={onExport} accent="teal" />}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-400">
+                    <span>{t('quiz.questionCount')}</span>
+                    <select
+                        className="p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-teal-500 focus:outline-none"
+                        value={questionCount}
+                        onChange={(e) => onQuestionCountChange(Number(e.target.value))}
+                        disabled={loading || disabled}
+                    >
+                        {QUIZ_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={onGenerate}
+                    disabled={loading || disabled}
+                    className="px-4 py-1.5 rounded-full font-semibold text-white bg-teal-600 hover:bg-teal-700 disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-teal-500/50"
+                >
+                    {loading ? t('quiz.generating') : quiz ? t('quiz.regenerate') : t('quiz.generate')}
+                </button>
+                {loading && (
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-1.5 rounded-full font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {!loading && estimate && <span className="text-xs text-gray-500">{t('usage.estimated', { estimate })}</span>}
+                {quiz && (
+                    <label className="flex items-center gap-2 text-gray-400 ml-auto">
+                        <input type="checkbox" checked={showAnswers} onChange={(e) => setShowAnswers(e.target.checked)} />
+                        <span>{t('quiz.showAnswers')}</span>
+                    </label>
+                )}
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {quiz && (
+                <ol className="space-y-4 list-decimal list-inside text-sm text-gray-200">
+                    {quiz.questions.map((question, index) => (
+                        <li key={index}>
+                            <span className="font-medium">{question.question}</span>
+                            <ul className="mt-1 ml-5 space-y-0.5">
+                                {question.options.map((option, optionIndex) => (
+                                    <li
+                                        key={optionIndex}
+                                        className={showAnswers && optionIndex === question.answerIndex ? 'text-teal-300 font-semibold' : 'text-gray-300'}
+                                    >
+                                        {OPTION_LETTERS[optionIndex]}) {option}
+                                        {showAnswers && optionIndex === question.answerIndex && ' ✓'}
+                                    </li>
+                                ))}
+                            </ul>
+                            {showAnswers && question.explanation && (
+                                <p className="mt-1 ml-5 text-xs text-gray-400">{question.explanation}</p>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+};
+
+export default QuizPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { TranscriptSegment } from '../types';
+import { getSpeakerStats } from '../utils/speakers';
+import { formatTimestamp } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface SpeakerPanelProps {
+    segments: TranscriptSegment[];
+    onRename: (from: string, to: string) => void;
+    disabled?: boolean;
+}
+
+const inputClassName = "w-full min-w-0 p-1 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none disabled:opacity-50";
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ segments, onRename, disabled = false }) => {
+    const { t, tp } = useI18n();
+    const stats = getSpeakerStats(segments);
+
+    return (
+        <div className="space-y-2">
+            <p className="text-xs text-gray-500">
+                {t('speakers.hint')}
+            </p>
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                        <th className="font-normal pb-1">{t('speakers.speaker')}</th>
+                        <th className="font-normal pb-1 w-20 text-right">{t('speakers.talkTime')}</th>
+                        <th className="font-normal pb-1 w-40 pl-3">{t('speakers.share')}</th>
+                        <th className="font-normal pb-1 w-24 text-right">{t('speakers.segments')}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {stats.map(speaker => (
+                        <tr key={speaker.name}>
+                            <td className="py-0.5 pr-2">
+                                <input
+                                    // Remount after a rename so the input shows the new name.
+                                    key={speaker.name}
+                                    className={inputClassName}
+                                    defaultValue={speaker.name}
+                                    disabled={disabled}
+                                    onBlur={(e) => onRename(speaker.name, e.target.value)}
+                                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                                    aria-label={t('speakers.nameOf', { name: speaker.name })}
+                                />
+                            </td>
+                            <td className="py-0.5 text-right font-mono text-gray-300">{formatTimestamp(speaker.talkTime)}</td>
+                            <td className="py-0.5 pl-3">
+                                <div className="flex items-center gap-2">
+                                    <div className="flex-1 bg-gray-700 rounded-full h-1.5 overflow-hidden">
+                                        <div className="bg-cyan-500 h-1.5 rounded-full" style={{ width: `${speaker.share * 100}%` }}></div>
+                                    </div>
+                                    <span className="w-10 text-right text-xs text-gray-400">{Math.round(speaker.share * 100)}%</span>
+                                </div>
+                            </td>
+                            <td className="py-0.5 text-right text-gray-400" title={tp('speakers.words', speaker.wordCount)}>{speaker.segmentCount}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default SpeakerPanel;
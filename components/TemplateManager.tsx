@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react';
+import { PromptTemplate } from '../types';
+import { createTemplate, duplicateTemplate, exportTemplatesJson, parseTemplatesJson } from '../services/templateStore';
+import { downloadFile } from '../utils/download';
+import { useI18n } from '../i18n/I18nProvider';
+import { XCircleIcon } from './Icons';
+
+interface TemplateManagerProps {
+    templates: PromptTemplate[];
+    selectedTemplateId: string;
+    onTemplatesChange: (templates: PromptTemplate[]) => void;
+    onSelect: (id: string) => void;
+    onClose: () => void;
+}
+
+const inputClassName = "w-full p-1.5 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-teal-500 focus:outline-none disabled:opacity-60";
+const buttonClassName = "px-3 py-1.5 text-xs rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-teal-500 disabled:opacity-50 disabled:cursor-not-allowed";
+
+const TemplateManager: React.FC<TemplateManagerProps> = ({ templates, selectedTemplateId, onTemplatesChange, onSelect, onClose }) => {
+    const { t } = useI18n();
+    const [editingId, setEditingId] = useState<string>(selectedTemplateId);
+    const [importError, setImportError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    const editing = templates.find(template => template.id === editingId) ?? templates[0];
+    const readOnly = !!editing.builtIn;
+
+    const updateEditing = (changes: Partial<PromptTemplate>) => {
+        onTemplatesChange(templates.map(template =>
+            template.id === editing.id ? { ...template, ...changes, updatedAt: Date.now() } : template));
+    };
+
+    const addTemplate = (template: PromptTemplate) => {
+        onTemplatesChange([...templates, template]);
+        setEditingId(template.id);
+    };
+
+    const handleDelete = () => {
+        if (readOnly || !window.confirm(t('templates.confirmDelete', { name: editing.name }))) return;
+        const remaining = templates.filter(template => template.id !== editing.id);
+        onTemplatesChange(remaining);
+        if (selectedTemplateId === editing.id) onSelect(remaining[0].id);
+        setEditingId(remaining[0].id);
+    };
+
+    const handleExport = () => {
+        downloadFile({
+            filename: 'prompt-templates.json',
+            mimeType: 'application/json',
+            content: exportTemplatesJson(templates),
+        });
+    };
+
+    const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const imported = parseTemplatesJson(await file.text());
+            onTemplatesChange([...templates, ...imported]);
+            if (imported.length > 0) setEditingId(imported[0].id);
+            setImportError(null);
+        } catch (err: any) {
+            setImportError(err.message);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-label={t('templates.title')}>
+            <div className="w-full max-w-4xl max-h-full overflow-y-auto bg-gray-800 rounded-lg border border-gray-700 shadow-xl">
+                <div className="flex justify-between items-center p-4 border-b border-gray-700">
+                    <h2 className="text-lg font-semibold text-teal-400">{t('templates.title')}</h2>
+                    <button onClick={onClose} className="p-1 text-gray-400 hover:text-white rounded-full focus:outline-none focus:ring-2 focus:ring-teal-500" aria-label={t('common.close')}>
+                        <XCircleIcon />
+                    </button>
+                </div>
+
+                <div className="flex flex-col md:flex-row">
+                    <div className="md:w-64 p-4 border-b md:border-b-0 md:border-r border-gray-700 space-y-3">
+                        <ul className="space-y-1">
+                            {templates.map(template => (
+                                <li key={template.id}>
+                                    <button
+                                        onClick={() => setEditingId(template.id)}
+                                        className={`w-full text-left px-2 py-1.5 rounded-md text-sm truncate ${template.id === editing.id ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-700/50'}`}
+                                    >
+                                        {template.name}
+                                        {template.builtIn && <span className="ml-1 text-xs text-gray-500">{t('templates.builtIn')}</span>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                        <div className="flex flex-wrap gap-1">
+                            <button className={buttonClassName} onClick={() => addTemplate(createTemplate())}>{t('templates.new')}</button>
+                            <button className={buttonClassName} onClick={() => addTemplate(duplicateTemplate(editing))}>{t('templates.duplicate')}</button>
+                            <button className={buttonClassName} onClick={handleDelete} disabled={readOnly}>{t('templates.delete')}</button>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            <button className={buttonClassName} onClick={() => importInputRef.current?.click()}>{t('templates.importJson')}</button>
+                            <button className={buttonClassName} onClick={handleExport} disabled={templates.every(template => template.builtIn)}>{t('templates.exportJson')}</button>
+                            <input ref={importInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                        </div>
+                        {importError && <p className="text-xs text-red-400">{importError}</p>}
+                    </div>
+
+                    <div className="flex-1 p-4 space-y-3">
+                        {readOnly && (
+                            <p className="text-xs text-gray-400">{t('templates.readOnly')}</p>
+                        )}
+                        <label className="block text-xs text-gray-400">
+                            {t('templates.name')}
+                            <input className={inputClassName} value={editing.name} disabled={readOnly} onChange={(e) => updateEditing({ name: e.target.value })} />
+                        </label>
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <label className="block text-xs text-gray-400">
+                                {t('templates.outputLanguage')}
+                                <input className={inputClassName} value={editing.outputLanguage} disabled={readOnly} onChange={(e) => updateEditing({ outputLanguage: e.target.value })} />
+                            </label>
+                            <label className="block text-xs text-gray-400">
+                                {t('templates.model')}
+                                <input className={inputClassName} value={editing.model} disabled={readOnly} onChange={(e) => updateEditing({ model: e.target.value })} />
+                            </label>
+                        </div>
+                        <label className="block text-xs text-gray-400">
+                            {t('templates.systemPrompt')}
+                            <textarea className={`${inputClassName} font-mono`} rows={8} value={editing.systemPrompt} disabled={readOnly} onChange={(e) => updateEditing({ systemPrompt: e.target.value })} />
+                        </label>
+                        <label className="block text-xs text-gray-400">
+                            {t('templates.userMessage')} <code>{'{{transcript}}'}</code>, <code>{'{{instructions}}'}</code>, <code>{'{{language}}'}</code>
+                            <textarea className={`${inputClassName} font-mono`} rows={6} value={editing.userMessageTemplate} disabled={readOnly} onChange={(e) => updateEditing({ userMessageTemplate: e.target.value })} />
+                        </label>
+                        {!editing.userMessageTemplate.includes('{{transcript}}') && (
+                            <p className="text-xs text-yellow-400">{t('templates.missingTranscript')}</p>
+                        )}
+                        <div className="flex justify-end">
+                            <button
+                                onClick={() => { onSelect(editing.id); onClose(); }}
+                                className="px-4 py-1.5 text-sm rounded-full font-semibold text-white bg-teal-600 hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500"
+                            >
+                                {t('templates.use')}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default TemplateManager;
@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import { GlossaryEntry, TranscriptSegment } from '../types';
+import FindReplaceBar from './FindReplaceBar';
+import GlossaryPanel from './GlossaryPanel';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface TranscriptEditorToolsProps {
+    segments: TranscriptSegment[];
+    canUndo: boolean;
+    canRedo: boolean;
+    onUndo: () => void;
+    onRedo: () => void;
+    onReplaceAll: (pattern: RegExp, replacement: string) => void;
+    glossary: GlossaryEntry[];
+    onGlossaryChange: (glossary: GlossaryEntry[]) => void;
+    onApplyGlossary: () => void;
+}
+
+type Panel = 'none' | 'find' | 'glossary';
+
+const buttonClassName = "px-2.5 py-1 text-xs rounded-md font-medium transition-colors bg-gray-700 text-gray-300 hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed";
+const activeButtonClassName = "px-2.5 py-1 text-xs rounded-md font-medium transition-colors bg-cyan-800 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500";
+
+const TranscriptEditorTools: React.FC<TranscriptEditorToolsProps> = ({
+    segments, canUndo, canRedo, onUndo, onRedo, onReplaceAll, glossary, onGlossaryChange, onApplyGlossary,
+}) => {
+    const { t, tp } = useI18n();
+    const [panel, setPanel] = useState<Panel>('none');
+    const editedCount = segments.filter(segment => segment.originalText !== undefined).length;
+
+    // Ctrl/Cmd+Z and Ctrl/Cmd+Shift+Z (or Ctrl+Y) undo and redo transcript edits. Inside a text field
+    // the browser's own undo applies to the text being typed instead.
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const target = event.target as HTMLElement | null;
+            if (!(event.ctrlKey || event.metaKey) || target?.tagName === 'TEXTAREA' || target?.tagName === 'INPUT') return;
+            const key = event.key.toLowerCase();
+            if (key === 'z' && !event.shiftKey) {
+                event.preventDefault();
+                onUndo();
+            } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+                event.preventDefault();
+                onRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [onUndo, onRedo]);
+
+    const togglePanel = (next: Panel) => setPanel(panel === next ? 'none' : next);
+
+    return (
+        <div className="mb-3 space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <button className={buttonClassName} onClick={onUndo} disabled={!canUndo} title={t('editor.undoTitle')}>{t('editor.undo')}</button>
+                <button className={buttonClassName} onClick={onRedo} disabled={!canRedo} title={t('editor.redoTitle')}>{t('editor.redo')}</button>
+                <button className={panel === 'find' ? activeButtonClassName : buttonClassName} onClick={() => togglePanel('find')}>{t('editor.findReplace')}</button>
+                <button className={panel === 'glossary' ? activeButtonClassName : buttonClassName} onClick={() => togglePanel('glossary')}>
+                    {t('editor.glossary', { count: glossary.length })}
+                </button>
+                {editedCount > 0 && (
+                    <span className="text-xs text-yellow-300">{tp('editor.edited', editedCount)}</span>
+                )}
+            </div>
+            {panel === 'find' && <FindReplaceBar segments={segments} onReplaceAll={onReplaceAll} />}
+            {panel === 'glossary' && <GlossaryPanel glossary={glossary} onChange={onGlossaryChange} onApply={onApplyGlossary} />}
+        </div>
+    );
+};
+
+export default TranscriptEditorTools;
@@ -0,0 +1,258 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { TranscriptSegment } from '../types';
+import { toVtt } from '../utils/export';
+import { findActiveSegmentIndex, formatTimestamp } from '../utils/transcript';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface TranscriptViewerProps {
+    segments: TranscriptSegment[];
+    /** Object URL of the recording; without it the transcript is shown on its own. */
+    mediaUrl: string | null;
+    /** Videos are shown with the transcript as subtitles. */
+    mediaKind?: 'audio' | 'video';
+    /** When set, segment texts are editable and changes are reported through `onSegmentTextChange`. */
+    editing?: boolean;
+    onSegmentTextChange?: (segmentId: number, text: string) => void;
+}
+
+export interface TranscriptViewerHandle {
+    /** Highlights the segment at `time`, scrolls it into view and plays from there when there is a recording. */
+    seekTo: (time: number) => void;
+}
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+const SKIP_SECONDS = 5;
+
+/** Targets that use letters and arrow keys themselves: text fields, selects, sliders and the player's own controls. */
+const isKeyboardTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement
+    && (target.isContentEditable
+        || ['INPUT', 'TEXTAREA', 'SELECT', 'AUDIO', 'VIDEO'].includes(target.tagName)
+        || target.closest('[role="slider"], [role="textbox"]') !== null);
+
+/** Targets that Space activates, such as buttons and links; only that key is left to them. */
+const isActivatedBySpace = (target: EventTarget | null) =>
+    target instanceof HTMLElement
+    && (['BUTTON', 'A', 'SUMMARY'].includes(target.tagName)
+        || target.closest('[role="button"], [role="link"], [role="checkbox"], [role="tab"]') !== null);
+
+/** Starts playback; an interrupted or unsupported play request is not an error worth surfacing here. */
+const play = (media: HTMLMediaElement) => {
+    media.play().catch(err => {
+        if (err instanceof DOMException && err.name === 'AbortError') return;
+        console.warn('Could not play the recording.', err);
+    });
+};
+
+const TranscriptViewer = forwardRef<TranscriptViewerHandle, TranscriptViewerProps>(({ segments, mediaUrl, mediaKind = 'audio', editing = false, onSegmentTextChange }, ref) => {
+    const { t } = useI18n();
+    const mediaRef = useRef<HTMLMediaElement | null>(null);
+    const activeLineRef = useRef<HTMLDivElement>(null);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [playbackRate, setPlaybackRate] = useState(1);
+    const [followPlayback, setFollowPlayback] = useState(true);
+    // Counts external seeks; without a recording, a seek is the only way a segment becomes active.
+    const [seekCount, setSeekCount] = useState(0);
+
+    const activeIndex = mediaUrl || seekCount > 0 ? findActiveSegmentIndex(segments, currentTime) : -1;
+
+    useEffect(() => {
+        if (mediaRef.current) mediaRef.current.playbackRate = playbackRate;
+    }, [playbackRate, mediaUrl]);
+
+    // The transcript doubles as a subtitle track, which also shows that its timing matches the video.
+    const subtitlesUrl = useMemo(
+        () => mediaKind === 'video' && segments.length > 0 ? URL.createObjectURL(new Blob([toVtt(segments)], { type: 'text/vtt' })) : null,
+        [mediaKind, segments],
+    );
+    useEffect(() => () => { if (subtitlesUrl) URL.revokeObjectURL(subtitlesUrl); }, [subtitlesUrl]);
+
+    useEffect(() => {
+        if (followPlayback && activeLineRef.current) {
+            activeLineRef.current.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+        }
+    }, [activeIndex, followPlayback]);
+
+    // External seeks always scroll to their segment, even when not following playback.
+    useEffect(() => {
+        if (seekCount > 0) activeLineRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }, [seekCount]);
+
+    // Space toggles playback, arrows skip, and < / > change speed, unless the focus is on a control that uses the key itself.
+    // Transcript lines do not take focus on click, so Space keeps working after clicking one.
+    useEffect(() => {
+        if (!mediaUrl) return;
+        const handleKeyDown = (event: KeyboardEvent) => {
+            const media = mediaRef.current;
+            if (!media || isKeyboardTarget(event.target) || event.ctrlKey || event.metaKey || event.altKey) return;
+            if (event.key === ' ' && isActivatedBySpace(event.target)) return;
+
+            switch (event.key) {
+                case ' ':
+                case 'k':
+                    event.preventDefault();
+                    if (media.paused) play(media); else media.pause();
+                    break;
+                case 'ArrowLeft':
+                case 'j':
+                    event.preventDefault();
+                    media.currentTime = Math.max(0, media.currentTime - SKIP_SECONDS);
+                    break;
+                case 'ArrowRight':
+                case 'l':
+                    event.preventDefault();
+                    media.currentTime = Math.min(media.duration || Infinity, media.currentTime + SKIP_SECONDS);
+                    break;
+                case '<':
+                case '>': {
+                    const index = PLAYBACK_RATES.indexOf(media.playbackRate);
+                    const nextIndex = Math.max(0, Math.min(PLAYBACK_RATES.length - 1, (index < 0 ? 2 : index) + (event.key === '>' ? 1 : -1)));
+                    setPlaybackRate(PLAYBACK_RATES[nextIndex]);
+                    break;
+                }
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [mediaUrl]);
+
+    const seekTo = (segment: TranscriptSegment) => {
+        const media = mediaRef.current;
+        if (!media) return;
+        media.currentTime = segment.start;
+        setCurrentTime(segment.start);
+        play(media);
+    };
+
+    useImperativeHandle(ref, () => ({
+        seekTo: (time: number) => {
+            const media = mediaRef.current;
+            if (media) {
+                media.currentTime = time;
+                play(media);
+            }
+            setCurrentTime(time);
+            setSeekCount(count => count + 1);
+        },
+    }), []);
+
+    return (
+        <div className={`grid gap-3 ${mediaUrl ? (mediaKind === 'video' ? 'md:grid-cols-[28rem_1fr]' : 'md:grid-cols-[16rem_1fr]') : ''}`}>
+            {mediaUrl && (
+                <div className="space-y-3">
+                    {mediaKind === 'video' ? (
+                        <video
+                            ref={element => { mediaRef.current = element; }}
+                            src={mediaUrl}
+                            controls
+                            playsInline
+                            className="w-full rounded-md bg-black"
+                            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                        >
+                            {subtitlesUrl && <track kind="subtitles" src={subtitlesUrl} label={t('viewer.subtitlesLabel')} default />}
+                        </video>
+                    ) : (
+                        <audio
+                            ref={element => { mediaRef.current = element; }}
+                            src={mediaUrl}
+                            controls
+                            className="w-full"
+                            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                            onSeeked={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                        />
+                    )}
+                    <div className="flex items-center justify-between text-sm text-gray-400">
+                        <label htmlFor="playback-rate">{t('viewer.speed')}</label>
+                        <select
+                            id="playback-rate"
+                            className="p-1 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                            value={playbackRate}
+                            onChange={(e) => setPlaybackRate(Number(e.target.value))}
+                        >
+                            {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+                        </select>
+                    </div>
+                    <label className="flex items-center space-x-2 text-sm text-gray-400">
+                        <input type="checkbox" checked={followPlayback} onChange={(e) => setFollowPlayback(e.target.checked)} />
+                        <span>{t('viewer.followPlayback')}</span>
+                    </label>
+                    <p className="text-xs text-gray-500 leading-relaxed">
+                        <kbd>Space</kbd>/<kbd>K</kbd> {t('viewer.shortcuts.playPause')} · <kbd>←</kbd>/<kbd>J</kbd> {t('viewer.shortcuts.back', { seconds: SKIP_SECONDS })} · <kbd>→</kbd>/<kbd>L</kbd> {t('viewer.shortcuts.forward', { seconds: SKIP_SECONDS })} · <kbd>&lt;</kbd>/<kbd>&gt;</kbd> {t('viewer.shortcuts.speed')}
+                    </p>
+                </div>
+            )}
+            <div className="max-h-[28rem] overflow-y-auto bg-gray-900/50 p-2 rounded-md border border-gray-700 space-y-0.5">
+                {segments.map((segment, index) => {
+                    const active = index === activeIndex;
+                    const timestamp = <span className="text-cyan-500">[{formatTimestamp(segment.start)}]</span>;
+                    const edited = segment.originalText !== undefined && (
+                        <span className="ml-1 px-1 rounded bg-yellow-900/60 text-yellow-300 text-xs" title={t('viewer.original', { text: segment.originalText })}>{t('viewer.edited')}</span>
+                    );
+
+                    if (editing) {
+                        return (
+                            <div
+                                key={segment.id}
+                                ref={active ? activeLineRef : undefined}
+                                className={`px-1.5 py-1 rounded font-mono text-sm ${active ? 'bg-cyan-900/60' : ''}`}
+                            >
+                                <div className="flex items-center text-gray-400">
+                                    <button
+                                        onMouseDown={(e) => e.preventDefault()}
+                                        onClick={() => seekTo(segment)}
+                                        className="hover:underline"
+                                        title={t('viewer.playFromHere')}
+                                    >
+                                        {timestamp}
+                                    </button>
+                                    <span className="ml-1">{segment.speaker}:</span>
+                                    {edited}
+                                    {segment.originalText !== undefined && (
+                                        <button
+                                            onClick={() => onSegmentTextChange?.(segment.id, segment.originalText!)}
+                                            className="ml-auto text-xs text-gray-500 hover:text-white"
+                                        >
+                                            {t('viewer.revert')}
+                                        </button>
+                                    )}
+                                </div>
+                                <textarea
+                                    // Remount when the text changes from outside (undo, replace) to show the new value.
+                                    key={segment.text}
+                                    defaultValue={segment.text}
+                                    rows={Math.max(1, Math.ceil(segment.text.length / 80))}
+                                    onBlur={(e) => {
+                                        if (e.target.value !== segment.text) onSegmentTextChange?.(segment.id, e.target.value);
+                                    }}
+                                    className="w-full mt-0.5 p-1 bg-gray-900 border border-gray-700 rounded text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:outline-none resize-y"
+                                    aria-label={t('viewer.segmentText', { time: formatTimestamp(segment.start) })}
+                                />
+                            </div>
+                        );
+                    }
+
+                    return (
+                        <div key={segment.id} ref={active ? activeLineRef : undefined}>
+                            <button
+                                // Without a recording the line is for reading and selecting, so only then keep the focus where it was.
+                                onMouseDown={mediaUrl ? (e) => e.preventDefault() : undefined}
+                                onClick={() => seekTo(segment)}
+                                className={`block w-full text-left px-1.5 py-0.5 rounded font-mono text-sm transition-colors ${
+                                    active ? 'bg-cyan-900/60 text-white' : 'text-gray-300'
+                                } ${mediaUrl ? 'hover:bg-gray-700/50' : 'cursor-text'}`}
+                            >
+                                {timestamp}{' '}
+                                <span className="text-gray-400">{segment.speaker}:</span>{' '}
+                                {segment.text}
+                                {edited}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+});
+
+export default TranscriptViewer;
@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { TranscriptSegment, TranscriptTranslation } from '../types';
+import { ExportFormat } from '../utils/export';
+import { formatTimestamp } from '../utils/transcript';
+import { CONTENT_LANGUAGES, languageName } from '../i18n';
+import { useI18n } from '../i18n/I18nProvider';
+import ExportButtons from './ExportButtons';
+
+export type TranslationExportFormat = Extract<ExportFormat, 'srt' | 'vtt' | 'txt'>;
+
+interface TranslationPanelProps {
+    segments: TranscriptSegment[];
+    translation: TranscriptTranslation | null;
+    /** Language code the next translation is made into. */
+    language: string;
+    onLanguageChange: (language: string) => void;
+    onTranslate: () => void;
+    onCancel: () => void;
+    onExport: (format: TranslationExportFormat) => void;
+    /** Called with a segment's start time when its timestamp is clicked. */
+    onSeek: (time: number) => void;
+    loading: boolean;
+    progress: { done: number; total: number } | null;
+    error: string | null;
+    /** Shown next to the button, e.g. the estimated usage. */
+    estimate?: string;
+    disabled?: boolean;
+}
+
+const TRANSLATION_EXPORT_FORMATS: { format: TranslationExportFormat; label: string }[] = [
+    { format: 'srt', label: 'SRT' },
+    { format: 'vtt', label: 'VTT' },
+    { format: 'txt', label: 'TXT' },
+];
+
+/** Translates the transcript and shows both versions side by side, segment by segment. */
+const TranslationPanel: React.FC<TranslationPanelProps> = ({
+    segments,
+    translation,
+    language,
+    onLanguageChange,
+    onTranslate,
+    onCancel,
+    onExport,
+    onSeek,
+    loading,
+    progress,
+    error,
+    estimate,
+    disabled = false,
+}) => {
+    const { t, locale } = useI18n();
+
+    const translatedTexts = useMemo(
+        () => new Map(translation?.segments.map(segment => [segment.id, segment.text])),
+        [translation],
+    );
+    // Segments added or split after the translation was made have no counterpart.
+    const outdated = translation !== null && segments.some(segment => !translatedTexts.has(segment.id));
+
+    return (
+        <div className="w-full max-w-4xl bg-gray-800 rounded-lg p-4 border border-gray-700 shadow-inner space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-cyan-400">{t('translation.title')}</h2>
+                {translation && !loading && <ExportButtons formats={TRANSLATION_EXPORT_FORMATS} onExport={onExport} />}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+                <label className="flex items-center gap-2 text-gray-400">
+                    <span>{t('translation.targetLanguage')}</span>
+                    <select
+                        className="p-1.5 bg-gray-900 border border-gray-600 rounded-md focus:ring-2 focus:ring-cyan-500 focus:outline-none"
+                        value={language}
+                        onChange={(e) => onLanguageChange(e.target.value)}
+                        disabled={loading || disabled}
+                    >
+                        {CONTENT_LANGUAGES.map(code => <option key={code} value={code}>{languageName(code, locale)}</option>)}
+                    </select>
+                </label>
+                <button
+                    onClick={onTranslate}
+                    disabled={loading || disabled}
+                    className="px-4 py-1.5 rounded-full font-semibold text-white bg-cyan-600 hover:bg-cyan-700 disabled:bg-gray-600 disabled:cursor-not-allowed focus:outline-none focus:ring-4 focus:ring-cyan-500/50"
+                >
+                    {loading
+                        ? progress && progress.total > 1 ? t('translation.translatingProgress', progress) : t('translation.translating')
+                        : translation ? t('translation.retranslate') : t('translation.translate')}
+                </button>
+                {loading && (
+                    <button
+                        onClick={onCancel}
+                        className="px-4 py-1.5 rounded-full font-semibold bg-gray-700 text-gray-200 hover:bg-gray-600 focus:outline-none focus:ring-4 focus:ring-gray-500/50"
+                    >
+                        {t('common.cancel')}
+                    </button>
+                )}
+                {!loading && estimate && <span className="text-xs text-gray-500">{t('usage.estimated', { estimate })}</span>}
+            </div>
+
+            {error && <p className="text-sm text-red-400">{error}</p>}
+
+            {!translation && !loading && <p className="text-xs text-gray-500">{t('translation.empty')}</p>}
+
+            {translation && (
+                <>
+                    <p className="text-xs text-gray-500">
+                        {t('translation.summary', {
+                            language: languageName(translation.language, locale),
+                            model: translation.model,
+                            date: new Date(translation.createdAt).toLocaleString(locale),
+                        })}
+                    </p>
+                    {outdated && <p className="text-xs text-yellow-400">{t('translation.outdated')}</p>}
+                    <div className="max-h-96 overflow-y-auto rounded-md border border-gray-700 text-sm">
+                        <div className="sticky top-0 grid grid-cols-[auto_1fr_1fr] gap-x-3 px-3 py-1.5 bg-gray-900 text-xs font-semibold text-gray-400">
+                            <span />
+                            <span>{t('translation.original')}</span>
+                            <span lang={translation.language}>{languageName(translation.language, locale)}</span>
+                        </div>
+                        {segments.map(segment => (
+                            <div key={segment.id} className="grid grid-cols-[auto_1fr_1fr] gap-x-3 px-3 py-1.5 border-t border-gray-700/60">
+                                <button
+                                    onClick={() => onSeek(segment.start)}
+                                    className="self-start font-mono text-xs text-cyan-400 hover:underline focus:outline-none focus:ring-2 focus:ring-cyan-500 rounded"
+                                    title={segment.speaker}
+                                >
+                                    {formatTimestamp(segment.start)}
+                                </button>
+                                <p className="text-gray-300">{segment.text}</p>
+                                <p className="text-gray-200" lang={translation.language}>
+                                    {translatedTexts.get(segment.id) ?? <span className="text-gray-600">—</span>}
+                                </p>
+                            </div>
+                        ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default TranslationPanel;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { LibrarySession, ModelPrice } from '../types';
+import { UsageLedger } from '../hooks/useUsageLedger';
+import { DEFAULT_MODEL_PRICES } from '../services/usageStore';
+import { formatCost, formatTokens, groupUsage, summarizeUsage, UsageTotals } from '../utils/usage';
+import { useI18n } from '../i18n/I18nProvider';
+
+interface UsagePanelProps {
+    ledger: UsageLedger;
+    sessions: LibrarySession[];
+    activeSessionId?: string;
+}
+
+const PRICE_FIELDS: (keyof ModelPrice)[] = ['input', 'audioInput', 'output', 'audioMinute'];
+
+const EMPTY_PRICE: ModelPrice = { input: 0, audioInput: 0, output: 0, audioMinute: 0 };
+
+const inputClassName = "w-full p-1 bg-gray-900 border border-gray-600 rounded-md text-sm focus:ring-2 focus:ring-cyan-500 focus:outline-none";
+
+const formatTotalsCost = (totals: UsageTotals) =>
+    `${formatCost(totals.cost)}${totals.unpricedCalls > 0 ? '+' : ''}`;
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ ledger, sessions, activeSessionId }) => {
+    const { t } = useI18n();
+    const { entries, prices, budget, totals, updatePrices, updateBudget, clear } = ledger;
+    const [open, setOpen] = useState(false);
+    const [newModel, setNewModel] = useState('');
+
+    const sessionTotals = useMemo(
+        () => activeSessionId ? summarizeUsage(entries.filter(entry => entry.sessionId === activeSessionId), prices) : null,
+        [entries, prices, activeSessionId],
+    );
+    const byModel = useMemo(
+        () => [...groupUsage(entries, entry => entry.model)].map(([model, items]) => ({ model, totals: summarizeUsage(items, prices) })),
+        [entries, prices],
+    );
+    const bySession = useMemo(
+        () => [...groupUsage(entries.filter(entry => entry.sessionId), entry => entry.sessionId!)]
+            .map(([id, items]) => ({
+                id,
+                title: sessions.find(session => session.id === id)?.title ?? t('usage.deletedSession'),
+                lastUsed: items[items.length - 1].createdAt,
+                totals: summarizeUsage(items, prices),
+            }))
+            .sort((a, b) => b.lastUsed - a.lastUsed),
+        [entries, prices, sessions, t],
+    );
+    const overBudget = budget !== null && totals.cost > budget;
+
+    const setPrice = (model: string, key: keyof ModelPrice, value: number) =>
+        updatePrices({ ...prices, [model]: { ...(prices[model] ?? EMPTY_PRICE), [key]: Math.max(0, value) } });
+
+    const handleAddModel = () => {
+        const model = newModel.trim();
+        if (!model || prices[model]) return;
+        // A removed default model comes back with its list price.
+        updatePrices({ ...prices, [model]: DEFAULT_MODEL_PRICES[model] ?? EMPTY_PRICE });
+        setNewModel('');
+    };
+
+    const handleRemoveModel = (model: string) => {
+        const { [model]: _removed, ...rest } = prices;
+        updatePrices(rest);
+    };
+
+    const handleClear = () => {
+        if (window.confirm(t('usage.confirmClear'))) clear();
+    };
+
+    return (
+        <div className="w-full max-w-2xl bg-gray-800 rounded-lg border border-gray-700">
+            <button
+                onClick={() => setOpen(!open)}
+                className="w-full flex justify-between items-center px-4 py-2 text-sm text-gray-300 hover:text-white focus:outline-none"
+                aria-expanded={open}
+            >
+                <span>
+                    {t('usage.summary')} <span className={`font-semibold ${overBudget ? 'text-red-400' : 'text-cyan-400'}`}>{formatTotalsCost(totals)}</span>
+                    {budget !== null && <span className="text-gray-500">{t('usage.ofBudget', { budget: formatCost(budget) })}</span>}
+                    {sessionTotals && <span className="text-gray-500">{t('usage.thisSession', { cost: formatTotalsCost(sessionTotals) })}</span>}
+                </span>
+                <span className="text-gray-500">{open ? '▲' : '▼'}</span>
+            </button>
+            {open && (
+                <div className="px-4 pb-4 space-y-4 text-sm">
+                    <p className="text-xs text-gray-500">
+                        {t('usage.explanation')}
+                    </p>
+
+                    <label className="flex items-center gap-2 text-xs text-gray-400">
+                        <span className="whitespace-nowrap">{t('usage.budget')}</span>
+                        <input
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            className={`${inputClassName} w-28`}
+                            value={budget ?? ''}
+                            placeholder={t('usage.noLimit')}
+                            onChange={(e) => updateBudget(Number(e.target.value) > 0 ? Number(e.target.value) : null)}
+                        />
+                        <span>{t('usage.budgetHint')}</span>
+                    </label>
+
+                    {byModel.length > 0 ? (
+                        <table className="w-full text-xs">
+                            <thead className="text-gray-500 text-left">
+                                <tr>
+                                    <th className="font-normal py-1">{t('usage.model')}</th>
+                                    <th className="font-normal text-right">{t('usage.calls')}</th>
+                                    <th className="font-normal text-right">{t('usage.input')}</th>
+                                    <th className="font-normal text-right">{t('usage.output')}</th>
+                                    <th className="font-normal text-right">{t('usage.audio')}</th>
+                                    <th className="font-normal text-right">{t('usage.cost')}</th>
+                                </tr>
+                            </thead>
+                            <tbody className="text-gray-300">
+                                {byModel.map(({ model, totals: modelTotals }) => (
+                                    <tr key={model} className="border-t border-gray-700">
+                                        <td className="py-1 font-mono">{model}</td>
+                                        <td className="text-right">{modelTotals.calls}</td>
+                                        <td className="text-right">{formatTokens(modelTotals.inputTokens)}</td>
+                                        <td className="text-right">{formatTokens(modelTotals.outputTokens)}</td>
+                                        <td className="text-right">{t('usage.minutes', { minutes: Math.round(modelTotals.audioSeconds / 60) })}</td>
+                                        <td className="text-right">{modelTotals.unpricedCalls === modelTotals.calls ? t('usage.noPrice') : formatTotalsCost(modelTotals)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    ) : (
+                        <p className="text-xs text-gray-500">{t('usage.empty')}</p>
+                    )}
+
+                    {bySession.length > 0 && (
+                        <div>
+                            <h3 className="text-xs text-gray-400 mb-1">{t('usage.bySession')}</h3>
+                            <ul className="max-h-40 overflow-y-auto text-xs divide-y divide-gray-700">
+                                {bySession.map(({ id, title, totals: itemTotals }) => (
+                                    <li key={id} className={`flex justify-between py-1 ${id === activeSessionId ? 'text-cyan-300' : 'text-gray-300'}`}>
+                                        <span className="truncate mr-2">{title}</span>
+                                        <span>{formatTotalsCost(itemTotals)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div>
+                        <h3 className="text-xs text-gray-400 mb-1">{t('usage.prices')}</h3>
+                        <table className="w-full text-xs">
+                            <thead className="text-gray-500 text-left">
+                                <tr>
+                                    <th className="font-normal py-1">{t('usage.model')}</th>
+                                    {PRICE_FIELDS.map(field => <th key={field} className="font-normal">{t(`usage.price.${field}`)}</th>)}
+                                    <th />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {Object.entries(prices).map(([model, price]) => (
+                                    <tr key={model}>
+                                        <td className="py-0.5 pr-2 font-mono text-gray-300">{model}</td>
+                                        {PRICE_FIELDS.map(field => (
+                                            <td key={field} className="pr-1">
+                                                <input
+                                                    type="number"
+                                                    min={0}
+                                                    step="any"
+                                                    aria-label={`${model} ${t(`usage.price.${field}`)}`}
+                                                    className={inputClassName}
+                                                    value={price[field]}
+                                                    onChange={(e) => setPrice(model, field, Number(e.target.value) || 0)}
+                                                />
+                                            </td>
+                                        ))}
+                                        <td>
+                                            <button
+                                                onClick={() => handleRemoveModel(model)}
+                                                className="text-gray-500 hover:text-red-400"
+                                                aria-label={t('usage.removeModel', { model })}
+                                            >
+                                                ✕
+                                            </button>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <div className="flex gap-2 mt-2">
+                            <input
+                                className={`${inputClassName} flex-1`}
+                                placeholder={t('usage.addModelPlaceholder')}
+                                value={newModel}
+                                onChange={(e) => setNewModel(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleAddModel(); }}
+                            />
+                            <button
+                                onClick={handleAddModel}
+                                disabled={!newModel.trim() || !!prices[newModel.trim()]}
+                                className="px-3 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded-md disabled:opacity-50"
+                            >
+                                {t('common.add')}
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleClear}
+                            disabled={entries.length === 0}
+                            className="text-xs text-gray-500 hover:text-red-400 disabled:opacity-50"
+                        >
+                            {t('usage.clearHistory')}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -0,0 +1,112 @@
+import { Type } from '@google/genai';
+
+export const TRANSCRIPTION_PROMPT = `Transcribe this long audio recording in its entirety. Provide a high-quality, accurate transcript of all speech.
+
+The recording may be a lecture, an interview or a panel discussion with several people. Identify every distinct speaker by their voice:
+- Label speakers "Speaker 1", "Speaker 2", ... in the order in which they first speak.
+- Keep the same label for the same voice throughout the recording, even after long pauses.
+- Do not use names, even when speakers introduce themselves; the names are added later.
+
+Split the transcript into segments at natural pauses or sentence boundaries, and start a new segment whenever the speaker changes.
+For every segment give:
+- "start" and "end": the time in the recording as "HH:MM:SS"
+- "speaker": the speaker label
+- "text": the exact words spoken
+
+Return only JSON that matches the response schema.`;
+
+export const TRANSCRIPT_RESPONSE_SCHEMA = {
+    type: Type.OBJECT,
+    properties: {
+        segments: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    start: { type: Type.STRING, description: 'Segment start time as HH:MM:SS' },
+                    end: { type: Type.STRING, description: 'Segment end time as HH:MM:SS' },
+                    speaker: { type: Type.STRING, description: 'Speaker label, consistent across the recording' },
+                    text: { type: Type.STRING, description: 'Transcribed speech for this segment' },
+                },
+                required: ['start', 'end', 'speaker', 'text'],
+                propertyOrdering: ['start', 'end', 'speaker', 'text'],
+            },
+        },
+    },
+    required: ['segments'],
+};
+
+/** Number of chunks transcribed in parallel. */
+export const TRANSCRIPTION_CONCURRENCY = 3;
+
+export const LESSON_GENERATION_SYSTEM_PROMPT = `**Role:** You are acting as a highly experienced Artificial Intelligence (AI) and Software Testing Expert who has vast knowledge in Generative AI tools and their application in the software development lifecycle.
+
+**Goal:** Your task is to transform the provided video transcript/text into a clear, comprehensive, and engaging lesson content for an educational course.
+
+**Instruction Guidelines:**
+1.  **Maintain Expert Tone:** Write the content in an **accessible, clear, and professional** tone, suitable for a course covering technical subjects related to AI and testing.
+2.  **Adherence to Source:** The core content must be **strictly based on the information provided in the input text/transcript**. Do not invent main topics.
+3.  **Enhancement for Clarity:** To enhance understanding and provide practical context, you are **encouraged to introduce short, relevant examples, analogies, or brief supplementary explanations** that support and elaborate on the points made in the transcript. These additions must be concise and directly related to the topic.
+4.  **Language Output:** You must deliver the final lesson content **entirely in {{language}}**, ensuring the translation is natural and high-quality.
+5.  **Target Audience:** The content is intended for professionals and students seeking to understand how to effectively integrate AI into their testing and development processes.
+
+**Structure Template for Output:**
+The final output must follow this structured template for every lesson, with the headings written in {{language}}:
+
+### 🇹🇷 Ders İçeriği Başlığı (Lesson Content Title)
+
+**I. Giriş ve Konuya Genel Bakış (Introduction and Overview)**
+* Bu dersin temel amacı ve hedefleri.
+* Konunun genel AI/Test sürecindeki yeri.
+
+**II. Temel Kavramlar ve Tanımlar (Core Concepts and Definitions)**
+* Konunun anahtar terimlerinin net ve anlaşılır tanımları.
+* Transkriptteki ana fikirlerin özetlenmesi.
+
+**III. Detaylı Anlatım ve Uygulamalar (Detailed Explanation and Applications)**
+* Transkriptteki adımların veya detaylı açıklamaların madde madde veya paragraflar halinde sunulması.
+* **[Kısa Örnek/Analoji Eklenecek Bölüm]** (Insert short, relevant example or analogy here to improve comprehension.)
+
+**IV. Uzman Görüşü ve Pratik İpuçları (Expert Insight and Practical Tips)**
+* Konuyla ilgili uzmanın deneyimlerinden damıtılmış kısa bir ipucu veya dikkat edilmesi gereken bir nokta.
+
+**V. Özet ve Sonuç (Summary and Conclusion)**
+* Dersin en önemli çıkarımlarının 2-3 madde ile özetlenmesi.`;
+
+/** The default user message wrapped around every lesson request. */
+export const LESSON_USER_MESSAGE_TEMPLATE = `Lütfen aşağıdaki transkripte göre ders içeriğini oluşturun.
+
+--- TRANSKRİPT ---
+{{transcript}}
+
+--- KULLANICI TALİMATLARI / DERS BAŞLIĞI ---
+{{instructions}}
+`;
+
+export const DEFAULT_TEMPLATE_ID = 'builtin-lesson';
+
+/** System prompt for questions about a transcript; the transcript itself is appended below it. */
+export const CHAT_SYSTEM_PROMPT = `You answer questions about a recording, using only its transcript below. Every transcript line starts with the time it was said, e.g. "[12:34]".
+
+- Answer in the language of the question.
+- Support every statement with the line(s) it comes from by citing their timestamps exactly as written, in square brackets, e.g. [12:34]. Cite several lines as [12:34] [15:02].
+- Quote short passages when the exact wording matters.
+- If the transcript does not contain the answer, say so instead of guessing.
+- Keep answers concise and use Markdown for lists.`;
+
+/** System prompt for multiple-choice quizzes; the reply is parsed as JSON by `parseQuizResponse`. */
+export const QUIZ_SYSTEM_PROMPT = `You write multiple-choice quizzes that check understanding of a recording, using only its transcript.
+
+- Every question has exactly four options, exactly one of which is correct, and a one-sentence explanation of the answer.
+- Ask about the important ideas, not trivia such as exact wording or timestamps, and make the wrong options plausible.
+- Reply with JSON only, in this shape: {"questions": [{"question": "...", "options": ["...", "...", "...", "..."], "answer": 0, "explanation": "..."}]}, where "answer" is the index of the correct option.`;
+
+/** System prompt for translating transcript segments; the reply is parsed as JSON by `parseTranslationResponse`. */
+export const TRANSLATION_SYSTEM_PROMPT = `You translate the segments of a recording's transcript for subtitles and course material.
+
+- Translate every segment on its own: never merge, split, reorder or skip segments, and keep each segment's "id".
+- Keep the speaker's meaning and register, and leave product names, code and technical terms that are normally used untranslated as they are.
+- Reply with JSON only, in this shape: {"segments": [{"id": 0, "text": "..."}]}, with one item for every segment you were given.`;
+
+/** Number of translation batches sent in parallel. */
+export const TRANSLATION_CONCURRENCY = 2;
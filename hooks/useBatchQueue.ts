@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { BatchJob } from '../types';
+import { describeError, isCancellation } from '../services/errors';
+import { createId } from '../utils/id';
+
+export interface BatchJobContext {
+    /** Updates the job, unless it has been cancelled or restarted in the meantime. */
+    update: (changes: Partial<BatchJob>) => void;
+    isCancelled: () => boolean;
+    /** Aborted when the job is cancelled or removed, so in-flight requests stop right away. */
+    signal: AbortSignal;
+}
+
+export type BatchJobRunner = (job: BatchJob, context: BatchJobContext) => Promise<void>;
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+
+/**
+ * A queue of files processed by `runJob` with at most `concurrency` jobs running at once.
+ * Pausing stops new jobs from starting; cancelling a running job discards its result.
+ */
+export const useBatchQueue = (runJob: BatchJobRunner) => {
+    const [jobs, setJobs] = useState<BatchJob[]>([]);
+    const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+    const [paused, setPaused] = useState<boolean>(false);
+    const jobsRef = useRef<BatchJob[]>([]);
+    // Each start of a job gets a new token, so a cancelled or retried run cannot update the job.
+    const runTokensRef = useRef(new Map<string, number>());
+    const controllersRef = useRef(new Map<string, AbortController>());
+    const runJobRef = useRef(runJob);
+    runJobRef.current = runJob;
+
+    const updateJob = useCallback((id: string, changes: Partial<BatchJob>) => {
+        jobsRef.current = jobsRef.current.map(job => job.id === id ? { ...job, ...changes } : job);
+        setJobs(jobsRef.current);
+    }, []);
+
+    const startJob = useCallback((job: BatchJob) => {
+        const token = (runTokensRef.current.get(job.id) ?? 0) + 1;
+        runTokensRef.current.set(job.id, token);
+        const isCurrent = () => runTokensRef.current.get(job.id) === token
+            && jobsRef.current.find(item => item.id === job.id)?.status === 'running';
+        const controller = new AbortController();
+        controllersRef.current.set(job.id, controller);
+
+        updateJob(job.id, { status: 'running', progress: 0, error: undefined, lessonStatus: undefined, lessonError: undefined });
+        runJobRef.current(job, {
+            update: changes => { if (isCurrent()) updateJob(job.id, changes); },
+            isCancelled: () => !isCurrent(),
+            signal: controller.signal,
+        })
+            .then(() => { if (isCurrent()) updateJob(job.id, { status: 'done', progress: 1 }); })
+            .catch((err: unknown) => {
+                if (!isCancellation(err)) console.error(err);
+                if (isCurrent()) updateJob(job.id, { status: 'error', error: describeError(err) });
+            })
+            .finally(() => {
+                if (controllersRef.current.get(job.id) === controller) controllersRef.current.delete(job.id);
+            });
+    }, [updateJob]);
+
+    useEffect(() => {
+        if (paused) return;
+        const current = jobsRef.current;
+        const running = current.filter(job => job.status === 'running').length;
+        current
+            .filter(job => job.status === 'queued')
+            .slice(0, Math.max(0, concurrency - running))
+            .forEach(startJob);
+    }, [jobs, paused, concurrency, startJob]);
+
+    const addFiles = useCallback((files: File[]) => {
+        const added: BatchJob[] = files.map(file => ({ id: createId(), file, status: 'queued', progress: 0 }));
+        jobsRef.current = [...jobsRef.current, ...added];
+        setJobs(jobsRef.current);
+    }, []);
+
+    const cancelJob = useCallback((id: string) => {
+        const job = jobsRef.current.find(item => item.id === id);
+        if (job && (job.status === 'queued' || job.status === 'running')) {
+            updateJob(id, { status: 'cancelled' });
+            controllersRef.current.get(id)?.abort();
+        }
+    }, [updateJob]);
+
+    const cancelAll = useCallback(() => {
+        jobsRef.current
+            .filter(job => job.status === 'queued' || job.status === 'running')
+            .forEach(job => cancelJob(job.id));
+    }, [cancelJob]);
+
+    const retryJob = useCallback((id: string) => {
+        updateJob(id, { status: 'queued', progress: 0, error: undefined });
+    }, [updateJob]);
+
+    const removeJob = useCallback((id: string) => {
+        cancelJob(id);
+        jobsRef.current = jobsRef.current.filter(job => job.id !== id);
+        setJobs(jobsRef.current);
+    }, [cancelJob]);
+
+    const clearFinished = useCallback(() => {
+        jobsRef.current = jobsRef.current.filter(job => job.status === 'queued' || job.status === 'running');
+        setJobs(jobsRef.current);
+    }, []);
+
+    return {
+        jobs,
+        concurrency,
+        setConcurrency,
+        paused,
+        setPaused,
+        addFiles,
+        cancelJob,
+        cancelAll,
+        retryJob,
+        removeJob,
+        clearFinished,
+    };
+};
@@ -0,0 +1,52 @@
+import { useCallback, useState } from 'react';
+
+const HISTORY_LIMIT = 100;
+
+interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+}
+
+/**
+ * State with undo/redo. `set` records a history entry; `reset` replaces the value and
+ * clears the history, for loading new data that should not be undoable.
+ */
+export const useUndoableState = <T,>(initial: T) => {
+    const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] });
+
+    const set = useCallback((value: T | ((previous: T) => T)) => {
+        setHistory(history => {
+            const { past, present } = history;
+            const next = typeof value === 'function' ? (value as (previous: T) => T)(present) : value;
+            if (Object.is(next, present)) return history;
+            return { past: [...past, present].slice(-HISTORY_LIMIT), present: next, future: [] };
+        });
+    }, []);
+
+    const reset = useCallback((value: T) => {
+        setHistory({ past: [], present: value, future: [] });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(({ past, present, future }) => past.length === 0
+            ? { past, present, future }
+            : { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(({ past, present, future }) => future.length === 0
+            ? { past, present, future }
+            : { past: [...past, present], present: future[0], future: future.slice(1) });
+    }, []);
+
+    return {
+        value: history.present,
+        set,
+        reset,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+    };
+};
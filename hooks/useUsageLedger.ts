@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { ModelPrice, UsageEntry, UsageOperation } from '../types';
+import { TokenUsage } from '../services/providers';
+import { loadBudget, loadModelPrices, loadUsage, saveBudget, saveModelPrices, saveUsage } from '../services/usageStore';
+import { createId } from '../utils/id';
+import { summarizeUsage } from '../utils/usage';
+
+/**
+ * The persistent ledger of token usage, the model prices used to cost it and the soft budget.
+ * `recorder` builds the `onUsage` callback handed to provider calls.
+ */
+export const useUsageLedger = () => {
+    const [entries, setEntries] = useState<UsageEntry[]>(loadUsage);
+    const [prices, setPrices] = useState<Record<string, ModelPrice>>(loadModelPrices);
+    const [budget, setBudget] = useState<number | null>(loadBudget);
+
+    useEffect(() => saveUsage(entries), [entries]);
+
+    const recorder = useCallback((operation: UsageOperation, providerId: string, sessionId?: string) =>
+        (usage: TokenUsage) => {
+            const entry: UsageEntry = { ...usage, id: createId(), sessionId, operation, providerId, createdAt: Date.now() };
+            setEntries(prev => [...prev, entry]);
+        }, []);
+
+    const updatePrices = useCallback((updated: Record<string, ModelPrice>) => {
+        setPrices(updated);
+        saveModelPrices(updated);
+    }, []);
+
+    const updateBudget = useCallback((updated: number | null) => {
+        setBudget(updated);
+        saveBudget(updated);
+    }, []);
+
+    const clear = useCallback(() => setEntries([]), []);
+
+    const totals = useMemo(() => summarizeUsage(entries, prices), [entries, prices]);
+
+    return { entries, prices, budget, totals, recorder, updatePrices, updateBudget, clear };
+};
+
+export type UsageLedger = ReturnType<typeof useUsageLedger>;
@@ -0,0 +1,58 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import {
+    Locale,
+    MessageKey,
+    MessageParams,
+    PluralKey,
+    formatFileSize,
+    loadLocale,
+    saveLocale,
+    setActiveLocale,
+    translate,
+    translatePlural,
+} from './index';
+
+interface I18nContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: (key: MessageKey, params?: MessageParams) => string;
+    tp: (key: PluralKey, count: number, params?: MessageParams) => string;
+    formatSize: (bytes: number, decimals?: number) => string;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/** Provides the UI language to the app and remembers the user's choice. */
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(() => {
+        const initial = loadLocale();
+        setActiveLocale(initial);
+        return initial;
+    });
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const setLocale = useCallback((next: Locale) => {
+        setActiveLocale(next);
+        saveLocale(next);
+        setLocaleState(next);
+    }, []);
+
+    const value = useMemo<I18nContextValue>(() => ({
+        locale,
+        setLocale,
+        t: (key, params) => translate(locale, key, params),
+        tp: (key, count, params) => translatePlural(locale, key, count, params),
+        formatSize: (bytes, decimals) => formatFileSize(bytes, locale, decimals),
+    }), [locale, setLocale]);
+
+    return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+    const context = useContext(I18nContext);
+    if (!context) throw new Error('useI18n must be used inside an I18nProvider.');
+    return context;
+};
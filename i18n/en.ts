@@ -0,0 +1,321 @@
+/** English UI strings, the reference catalog: every key must exist here. */
+export const en = {
+    // Shared
+    'common.cancel': 'Cancel',
+    'common.add': 'Add',
+    'common.remove': 'Remove',
+    'common.save': 'Save',
+    'common.close': 'Close',
+    'common.copy': 'Copy',
+    'common.copied': 'Copied!',
+    'common.download': 'Download {label}',
+    'common.error': 'Error:',
+
+    // App shell, upload and transcription
+    'app.title': 'Gemini Large Audio Transcriber',
+    'app.subtitle': 'Upload a large audio file to generate a transcript and ask questions about it.',
+    'app.uiLanguage': 'Interface language',
+    'app.geminiKeyMissing': 'No Gemini API key is set. Enter one in the provider settings, or connect to a proxy server there.',
+    'app.providerUrlMissing': 'The provider is not configured. Please set the server URL in the provider settings.',
+    'app.confirmBudget': 'This is estimated to cost about {cost}, which would bring your total to {total}, over your budget of {budget}. Continue anyway?',
+    'app.retrying': '{error} Retrying in {seconds}s (attempt {attempt})...',
+    'app.chunksFailed': '{failed} of {total} chunks failed ({error}). Retry the failed chunks to complete the transcript; finished chunks are kept.',
+    'app.transcriptionCancelled': 'Transcription cancelled with {left} of {total} chunks left. Resume to transcribe the rest; finished chunks are kept.',
+    'app.selectFileFirst': 'Please select an audio file first.',
+    'app.preparingAudio': 'Preparing audio...',
+    'app.transcribingProgress': 'Transcribing ({done}/{total})...',
+    'app.transcribing': 'Transcribing...',
+    'app.transcribe': 'Transcribe Audio',
+    'app.dropzone.click': 'Click to upload',
+    'app.dropzone.drag': ' or drag and drop',
+    'app.dropzone.formats': 'MP3, WAV, M4A, etc. (Large files supported)',
+    'app.dropzone.videos': 'Videos (MP4, MKV, WebM) work too: only their audio track is extracted, in your browser, and uploaded.',
+    'app.dropzone.batch': 'Several files go to the batch queue, or',
+    'app.dropzone.folder': 'select a folder',
+    'app.toUpload': ' → ~{size} to upload ({kept} of {total})',
+    'app.openedFromLibrary': ' · Opened from library',
+    'app.removeFile': 'Remove file',
+    'app.preprocess': 'Trim and remove silence before upload',
+    'app.decoding': 'Decoding audio... This can take a while for long recordings.',
+    'app.chunksTranscribed.one': '{done} of {count} chunk transcribed',
+    'app.chunksTranscribed.other': '{done} of {count} chunks transcribed',
+    'app.chunksFailedCount': ', {count} failed',
+    'app.chunkStatus.pending': 'Pending',
+    'app.chunkStatus.uploading': 'Uploading',
+    'app.chunkStatus.transcribing': 'Transcribing',
+    'app.chunkStatus.done': 'Done',
+    'app.chunkStatus.error': 'Failed',
+    'app.retryFailed': 'Retry failed chunks',
+    'app.resume': 'Resume transcription',
+    'app.transcriptTitle': 'Transcription Result:',
+    'app.done': 'Done',
+    'app.edit': 'Edit',
+    'app.speakers': 'Speakers ({count})',
+    'app.tab.lesson': 'Create Lesson',
+    'app.tab.chat': 'Ask Questions',
+
+    // Provider settings
+    'provider.summary': 'Provider:',
+    'provider.provider': 'Provider',
+    'provider.transcriptionModel': 'Transcription model',
+    'provider.lessonModel': 'Lesson model',
+    'provider.transcriptionLanguage': 'Spoken language',
+    'provider.autoDetect': 'Detect automatically',
+    'provider.serverUrl': 'Server URL',
+    'provider.apiKeyOptional': 'API key (optional)',
+    'provider.label.gemini': 'Google Gemini',
+    'provider.label.openai': 'OpenAI-compatible server',
+    'provider.label.mock': 'Offline demo (mock)',
+    'provider.apiKey': 'API key',
+    'provider.keyStatus.none': 'Not set',
+    'provider.keyStatus.session': 'Saved for this session',
+    'provider.keyStatus.local': 'Saved on this device',
+    'provider.keyStatus.proxy': 'Held by the proxy server',
+    'provider.enterKey': 'Enter key',
+    'provider.changeKey': 'Change key',
+    'provider.proxyUrl': 'Proxy server URL (optional)',
+    'provider.proxyHint': 'When set, requests go through the proxy, which holds the key; no key is needed in the browser.',
+
+    // API key dialog
+    'apiKey.title': 'Gemini API key',
+    'apiKey.explanation': 'The key is kept in this browser only and sent straight to Google with each request. It is never part of the app\'s build.',
+    'apiKey.key': 'API key',
+    'apiKey.remember': 'Remember on this device',
+    'apiKey.rememberHint': 'Otherwise the key is forgotten when this tab is closed. Do not use this on shared computers.',
+    'apiKey.getKey': 'Get a key in Google AI Studio',
+    'apiKey.proxyHint': 'For a shared deployment, use the proxy server instead.',
+    'apiKey.remove': 'Remove key',
+
+    // Usage and costs
+    'usage.estimate': '~{tokens} tokens',
+    'usage.estimated': 'Estimated usage: {estimate}',
+    'usage.summary': 'Usage:',
+    'usage.ofBudget': ' of {budget} budget',
+    'usage.thisSession': ' · {cost} this session',
+    'usage.deletedSession': 'Deleted session',
+    'usage.confirmClear': 'Clear the whole usage history? Prices and the budget are kept.',
+    'usage.explanation': 'Costs use the token counts reported by the provider and the prices below (USD). Estimates shown before a job are approximate. A "+" means some calls used a model without a price.',
+    'usage.budget': 'Budget (USD)',
+    'usage.noLimit': 'No limit',
+    'usage.budgetHint': 'You are asked to confirm jobs estimated to go over it.',
+    'usage.model': 'Model',
+    'usage.calls': 'Calls',
+    'usage.input': 'Input',
+    'usage.output': 'Output',
+    'usage.audio': 'Audio',
+    'usage.cost': 'Cost',
+    'usage.minutes': '{minutes} min',
+    'usage.noPrice': 'no price',
+    'usage.empty': 'No usage recorded yet.',
+    'usage.bySession': 'By session',
+    'usage.prices': 'Prices (USD)',
+    'usage.price.input': 'Input / 1M',
+    'usage.price.audioInput': 'Audio in / 1M',
+    'usage.price.output': 'Output / 1M',
+    'usage.price.audioMinute': 'Audio / min',
+    'usage.removeModel': 'Remove {model}',
+    'usage.addModelPlaceholder': 'Add a model, e.g. gemini-2.0-flash',
+    'usage.clearHistory': 'Clear usage history',
+
+    // Library sidebar
+    'library.title': 'Library',
+    'library.search': 'Search transcripts...',
+    'library.searchLabel': 'Search the library',
+    'library.empty': 'Transcripts are saved here automatically.',
+    'library.noMatches': 'No matching transcripts.',
+    'library.sessionTitle': 'Session title',
+    'library.lessons.one': '{count} lesson',
+    'library.lessons.other': '{count} lessons',
+    'library.rename': 'Rename',
+    'library.delete': 'Delete',
+    'library.confirmDelete': 'Delete "{title}" and its lessons from the library?',
+
+    // Batch queue
+    'batch.title': 'Batch Queue',
+    'batch.progress': '({done}/{total} done)',
+    'batch.parallelJobs': 'Parallel jobs',
+    'batch.resume': 'Resume',
+    'batch.pause': 'Pause',
+    'batch.cancelAll': 'Cancel all',
+    'batch.clearFinished': 'Clear finished',
+    'batch.autoLesson': 'Run the “{template}” template after each transcript',
+    'batch.instructionsPlaceholder': 'Instructions (defaults to the file name)',
+    'batch.pausedHint': 'Paused — running jobs finish, no new jobs start.',
+    'batch.status.queued': 'Queued',
+    'batch.status.running': 'Transcribing',
+    'batch.status.done': 'Done',
+    'batch.status.error': 'Failed',
+    'batch.status.cancelled': 'Cancelled',
+    'batch.lessonRunning': ' · generating lesson',
+    'batch.lessonDone': ' · lesson ready',
+    'batch.lessonFailed': ' · lesson failed',
+    'batch.open': 'Open',
+    'batch.retry': 'Retry',
+    'batch.removeFromQueue': 'Remove from queue',
+
+    // Trimming and silence removal
+    'preprocess.videoUndecodable': 'The audio track of this video cannot be decoded in the browser.',
+    'preprocess.audioUndecodable': 'This format cannot be decoded in the browser, so it will be uploaded without preprocessing.',
+    'preprocess.analysing': 'Analysing audio…',
+    'preprocess.trimStart': 'Trim start',
+    'preprocess.trimEnd': 'Trim end',
+    'preprocess.silence': 'Silence {start}–{end}',
+    'preprocess.keeping': 'Keeping {start}–{end}',
+    'preprocess.pausesShortened.one': ', {count} pause shortened (shaded red)',
+    'preprocess.pausesShortened.other': ', {count} pauses shortened (shaded red)',
+    'preprocess.resetTrim': 'Reset trim',
+    'preprocess.removeSilence': 'Remove silence',
+    'preprocess.below': 'below',
+    'preprocess.longerThan': 'longer than',
+    'preprocess.seconds': 's',
+    'preprocess.sampleRate': 'Sample rate',
+    'preprocess.mono': '{rate} kHz mono',
+    'preprocess.timelineNote': 'Transcript times still refer to the original recording, so playback and subtitles stay in sync.',
+
+    // Transcript viewer
+    'viewer.subtitlesLabel': 'Transcript',
+    'viewer.speed': 'Speed',
+    'viewer.followPlayback': 'Follow playback',
+    'viewer.shortcuts.playPause': 'play/pause',
+    'viewer.shortcuts.back': 'back {seconds}s',
+    'viewer.shortcuts.forward': 'forward {seconds}s',
+    'viewer.shortcuts.speed': 'speed',
+    'viewer.original': 'Original: {text}',
+    'viewer.edited': 'edited',
+    'viewer.playFromHere': 'Play from here',
+    'viewer.revert': 'Revert',
+    'viewer.segmentText': 'Text of segment at {time}',
+
+    // Transcript editor
+    'editor.undo': 'Undo',
+    'editor.undoTitle': 'Undo (Ctrl+Z)',
+    'editor.redo': 'Redo',
+    'editor.redoTitle': 'Redo (Ctrl+Shift+Z)',
+    'editor.findReplace': 'Find & Replace',
+    'editor.glossary': 'Glossary ({count})',
+    'editor.edited.one': '{count} segment edited',
+    'editor.edited.other': '{count} segments edited',
+
+    // Find and replace
+    'find.find': 'Find',
+    'find.replaceWith': 'Replace with',
+    'find.matchCase': 'Match case',
+    'find.wholeWord': 'Whole word',
+    'find.regex': 'Regular expression',
+    'find.replaceAll': 'Replace all',
+    'find.matches.one': '{count} match',
+    'find.matches.other': '{count} matches',
+    'find.regexHint': 'In regex mode, $1, $2… refer to capture groups.',
+
+    // Glossary
+    'glossary.hint': 'Corrections are applied to every new transcript, and the correct spellings are given to the model as a hint.',
+    'glossary.heardAs': 'Heard as (e.g. jay unit)',
+    'glossary.correctTerm': 'Correct term (e.g. JUnit)',
+    'glossary.apply': 'Apply glossary to this transcript',
+
+    // Speakers
+    'speakers.hint': 'Renaming a speaker updates the whole transcript, the exports and the text used for lessons. Give two labels the same name to merge them.',
+    'speakers.speaker': 'Speaker',
+    'speakers.talkTime': 'Talk time',
+    'speakers.share': 'Share',
+    'speakers.segments': 'Segments',
+    'speakers.nameOf': 'Name of {name}',
+    'speakers.words.one': '{count} word',
+    'speakers.words.other': '{count} words',
+
+    // Translation
+    'translation.title': 'Translation',
+    'translation.targetLanguage': 'Translate into',
+    'translation.translate': 'Translate',
+    'translation.retranslate': 'Translate again',
+    'translation.translating': 'Translating...',
+    'translation.translatingProgress': 'Translating ({done}/{total})...',
+    'translation.empty': 'Translate the transcript to read it side by side with the original, download it as subtitles or write lessons from it.',
+    'translation.summary': '{language} · {model} · {date}',
+    'translation.outdated': 'Some segments were added after the translation was made; translate again to include them.',
+    'translation.original': 'Original',
+
+    // Prompt templates
+    'templates.title': 'Prompt Templates',
+    'templates.builtIn': '(built-in)',
+    'templates.new': 'New',
+    'templates.duplicate': 'Duplicate',
+    'templates.delete': 'Delete',
+    'templates.importJson': 'Import JSON',
+    'templates.exportJson': 'Export JSON',
+    'templates.readOnly': 'The built-in template cannot be edited. Duplicate it to make your own version.',
+    'templates.name': 'Name',
+    'templates.outputLanguage': 'Output language',
+    'templates.model': 'Model (empty = provider default)',
+    'templates.systemPrompt': 'System prompt',
+    'templates.userMessage': 'User message — variables:',
+    'templates.missingTranscript': 'The user message does not include {{transcript}}, so the model will not see the transcript.',
+    'templates.use': 'Use this template',
+    'templates.confirmDelete': 'Delete the template "{name}"?',
+    'templates.defaultName': 'New template',
+    'templates.copyName': '{name} (copy)',
+    'templates.invalidJson': 'The file is not valid JSON.',
+    'templates.notAList': 'The file does not contain a list of templates.',
+    'templates.invalidTemplate': 'Template #{index} is missing a name or user message template.',
+
+    // Lessons
+    'lesson.moveUp': 'Move section up',
+    'lesson.moveDown': 'Move section down',
+    'lesson.edit': 'Edit',
+    'lesson.writing': 'Writing...',
+    'lesson.regenerate': 'Regenerate',
+    'lesson.sectionContent': 'Content of {heading}',
+    'lesson.discard': 'Discard',
+    'lesson.title': 'Create Lesson Content from the Transcript',
+    'lesson.template': 'Template:',
+    'lesson.manageTemplates': 'Manage Templates',
+    'lesson.outputLanguage': 'Lesson language:',
+    'lesson.templateLanguage': 'Template default ({language})',
+    'lesson.placeholder': 'E.g. create a lesson on \'AI in Test Automation\', or enter specific instructions for the lesson.',
+    'lesson.instructionsLabel': 'Lesson instructions',
+    'lesson.generating': 'Generating...',
+    'lesson.generate': 'Create Lesson',
+    'lesson.savedLessons': 'Saved lessons:',
+    'lesson.resultTitle': 'Generated Lesson Content:',
+    'lesson.missingInstructions': 'Please enter an instruction or a title.',
+    'lesson.providerMissing': 'The provider is not configured. Please check the provider settings.',
+    'lesson.cancelled': 'Lesson generation was cancelled. The partial output was not saved.',
+    'lesson.source': 'Transcript:',
+    'lesson.sourceOriginal': 'Original',
+    'lesson.sourceTranslation': 'Translation ({language})',
+
+    // Quiz
+    'quiz.title': 'Multiple-Choice Quiz',
+    'quiz.questionCount': 'Questions:',
+    'quiz.generating': 'Generating...',
+    'quiz.regenerate': 'Generate New Quiz',
+    'quiz.generate': 'Generate Quiz',
+    'quiz.showAnswers': 'Show answer key',
+
+    // Questions about the transcript
+    'chat.conversation': 'Conversation',
+    'chat.newConversation': 'New conversation',
+    'chat.new': 'New',
+    'chat.confirmDelete': 'Delete the conversation "{title}"?',
+    'chat.deleteConversation': 'Delete conversation',
+    'chat.intro': 'Ask anything about the recording. Answers cite the transcript lines they are based on; click a timestamp to jump to it.',
+    'chat.thinking': 'Thinking…',
+    'chat.followUpPlaceholder': 'Ask a follow-up question…',
+    'chat.questionPlaceholder': 'Ask a question about the transcript…',
+    'chat.questionLabel': 'Question about the transcript',
+    'chat.ask': 'Ask',
+
+    // Errors (see services/errors.ts)
+    'error.cancelled': 'The operation was cancelled.',
+    'error.auth': 'The API key was rejected. Check that the key is correct and has access to the selected model.',
+    'error.quota': 'The API quota or rate limit was exceeded. Wait a few minutes, lower the number of parallel jobs, or use a key with a higher quota.',
+    'error.fileTooLarge': 'The file is too large for the API. Trim or compress the recording, or split it into smaller files.',
+    'error.unsupportedFile': 'The file format is not supported. Convert the recording to MP3, WAV or M4A (or a video to MP4 or WebM) and try again.',
+    'error.safety': 'The model refused to answer because of its safety filters. Rephrase the instructions or try a different part of the recording.',
+    'error.emptyResponse': 'The model returned an empty response. Try again, or pick a different model in the provider settings.',
+    'error.network': 'The connection to the API was interrupted. Check your internet connection and try again.',
+    'error.server': 'The API is temporarily unavailable. Try again in a few minutes.',
+    'error.unknown': 'An unexpected error occurred.',
+};
+
+export type MessageKey = keyof typeof en;
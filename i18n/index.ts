@@ -0,0 +1,86 @@
+import { en, MessageKey } from './en';
+import { tr } from './tr';
+
+export type { MessageKey } from './en';
+
+export type Locale = 'en' | 'tr';
+
+export const LOCALES: { id: Locale; label: string }[] = [
+    { id: 'en', label: 'English' },
+    { id: 'tr', label: 'Türkçe' },
+];
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { en, tr };
+
+const LOCALE_STORAGE_KEY = 'transcriber.locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(locale => locale.id === value);
+
+/** The saved UI language, or the browser's language when nothing has been saved yet. */
+export const loadLocale = (): Locale => {
+    const stored = localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+    return navigator.language.toLowerCase().startsWith('tr') ? 'tr' : 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+};
+
+// Code outside React (services, hooks) formats messages in the language the UI was last switched to.
+let activeLocale: Locale = 'en';
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+export const setActiveLocale = (locale: Locale) => {
+    activeLocale = locale;
+};
+
+export type MessageParams = Record<string, string | number>;
+
+/** Keys that exist in a ".one" and an ".other" form, e.g. "batch.files". */
+export type PluralKey = MessageKey extends infer Key
+    ? Key extends `${infer Base}.one` ? Base : never
+    : never;
+
+/** Fills {name} placeholders; numbers are formatted for the locale. */
+const interpolate = (locale: Locale, message: string, params: MessageParams = {}): string =>
+    message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        return typeof value === 'number' ? value.toLocaleString(locale) : value;
+    });
+
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string =>
+    interpolate(locale, CATALOGS[locale][key] ?? en[key], params);
+
+/** Picks the ".one" or ".other" form of `key` for `count`, which is also available as {count}. */
+export const translatePlural = (locale: Locale, key: PluralKey, count: number, params: MessageParams = {}): string => {
+    const form = new Intl.PluralRules(locale).select(count) === 'one' ? 'one' : 'other';
+    return translate(locale, `${key}.${form}` as MessageKey, { count, ...params });
+};
+
+const BYTE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'];
+
+/** Formats a size in bytes with the locale's number format and unit names, e.g. "1,5 MB". */
+export const formatFileSize = (bytes: number, locale: Locale, decimals = 2): string => {
+    const exponent = bytes > 0 ? Math.min(BYTE_UNITS.length - 1, Math.floor(Math.log(bytes) / Math.log(1024))) : 0;
+    return new Intl.NumberFormat(locale, {
+        style: 'unit',
+        unit: BYTE_UNITS[exponent],
+        unitDisplay: 'short',
+        maximumFractionDigits: Math.max(0, decimals),
+    }).format(bytes / 1024 ** exponent);
+};
+
+/** Languages offered for the recording and for generated lessons (ISO 639-1 codes), independent of the UI language. */
+export const CONTENT_LANGUAGES = ['en', 'tr', 'de', 'fr', 'es', 'it', 'pt', 'nl', 'ru', 'ar', 'zh', 'ja', 'ko', 'hi'];
+
+/** The name of a language (ISO 639-1 code) in `displayLocale`, e.g. "Turkish" or "Türkçe". */
+export const languageName = (code: string, displayLocale: string): string => {
+    try {
+        return new Intl.DisplayNames([displayLocale], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+};
@@ -0,0 +1,321 @@
+import type { MessageKey } from './en';
+
+/** Turkish UI strings. */
+export const tr: Record<MessageKey, string> = {
+    // Shared
+    'common.cancel': 'İptal',
+    'common.add': 'Ekle',
+    'common.remove': 'Kaldır',
+    'common.save': 'Kaydet',
+    'common.close': 'Kapat',
+    'common.copy': 'Kopyala',
+    'common.copied': 'Kopyalandı!',
+    'common.download': '{label} indir',
+    'common.error': 'Hata:',
+
+    // App shell, upload and transcription
+    'app.title': 'Gemini Büyük Ses Dosyası Transkripsiyon Aracı',
+    'app.subtitle': 'Transkript oluşturmak ve hakkında soru sormak için büyük bir ses dosyası yükleyin.',
+    'app.uiLanguage': 'Arayüz dili',
+    'app.geminiKeyMissing': 'Gemini API anahtarı ayarlanmamış. Sağlayıcı ayarlarından bir anahtar girin veya orada bir proxy sunucusuna bağlanın.',
+    'app.providerUrlMissing': 'Sağlayıcı yapılandırılmamış. Lütfen sağlayıcı ayarlarında sunucu URL\'sini ayarlayın.',
+    'app.confirmBudget': 'Bunun yaklaşık {cost} tutması bekleniyor; bu, toplamınızı {budget} bütçenizin üzerinde, {total} düzeyine çıkarır. Yine de devam edilsin mi?',
+    'app.retrying': '{error} {seconds} sn sonra yeniden deneniyor ({attempt}. deneme)...',
+    'app.chunksFailed': '{total} parçadan {failed} tanesi başarısız oldu ({error}). Transkripti tamamlamak için başarısız parçaları yeniden deneyin; biten parçalar korunur.',
+    'app.transcriptionCancelled': 'Transkripsiyon, {total} parçadan {left} tanesi kalmışken iptal edildi. Kalanları yazıya dökmek için devam edin; biten parçalar korunur.',
+    'app.selectFileFirst': 'Lütfen önce bir ses dosyası seçin.',
+    'app.preparingAudio': 'Ses hazırlanıyor...',
+    'app.transcribingProgress': 'Yazıya dökülüyor ({done}/{total})...',
+    'app.transcribing': 'Yazıya dökülüyor...',
+    'app.transcribe': 'Sesi Yazıya Dök',
+    'app.dropzone.click': 'Yüklemek için tıklayın',
+    'app.dropzone.drag': ' veya sürükleyip bırakın',
+    'app.dropzone.formats': 'MP3, WAV, M4A vb. (Büyük dosyalar desteklenir)',
+    'app.dropzone.videos': 'Videolar (MP4, MKV, WebM) da desteklenir: yalnızca ses izleri tarayıcınızda ayıklanır ve yüklenir.',
+    'app.dropzone.batch': 'Birden fazla dosya toplu kuyruğa eklenir; ya da',
+    'app.dropzone.folder': 'bir klasör seçin',
+    'app.toUpload': ' → yüklenecek ~{size} ({total} içinden {kept})',
+    'app.openedFromLibrary': ' · Kitaplıktan açıldı',
+    'app.removeFile': 'Dosyayı kaldır',
+    'app.preprocess': 'Yüklemeden önce kırp ve sessizliği kaldır',
+    'app.decoding': 'Ses çözümleniyor... Uzun kayıtlarda bu biraz zaman alabilir.',
+    'app.chunksTranscribed.one': '{count} parçadan {done} tanesi yazıya döküldü',
+    'app.chunksTranscribed.other': '{count} parçadan {done} tanesi yazıya döküldü',
+    'app.chunksFailedCount': ', {count} başarısız',
+    'app.chunkStatus.pending': 'Bekliyor',
+    'app.chunkStatus.uploading': 'Yükleniyor',
+    'app.chunkStatus.transcribing': 'Yazıya dökülüyor',
+    'app.chunkStatus.done': 'Tamamlandı',
+    'app.chunkStatus.error': 'Başarısız',
+    'app.retryFailed': 'Başarısız parçaları yeniden dene',
+    'app.resume': 'Transkripsiyona devam et',
+    'app.transcriptTitle': 'Transkripsiyon Sonucu:',
+    'app.done': 'Bitti',
+    'app.edit': 'Düzenle',
+    'app.speakers': 'Konuşmacılar ({count})',
+    'app.tab.lesson': 'Ders Oluştur',
+    'app.tab.chat': 'Soru Sor',
+
+    // Provider settings
+    'provider.summary': 'Sağlayıcı:',
+    'provider.provider': 'Sağlayıcı',
+    'provider.transcriptionModel': 'Transkripsiyon modeli',
+    'provider.lessonModel': 'Ders modeli',
+    'provider.transcriptionLanguage': 'Konuşma dili',
+    'provider.autoDetect': 'Otomatik algıla',
+    'provider.serverUrl': 'Sunucu URL\'si',
+    'provider.apiKeyOptional': 'API anahtarı (isteğe bağlı)',
+    'provider.label.gemini': 'Google Gemini',
+    'provider.label.openai': 'OpenAI uyumlu sunucu',
+    'provider.label.mock': 'Çevrimdışı demo (sahte)',
+    'provider.apiKey': 'API anahtarı',
+    'provider.keyStatus.none': 'Ayarlanmadı',
+    'provider.keyStatus.session': 'Bu oturum için kaydedildi',
+    'provider.keyStatus.local': 'Bu cihazda kaydedildi',
+    'provider.keyStatus.proxy': 'Proxy sunucusunda tutuluyor',
+    'provider.enterKey': 'Anahtar gir',
+    'provider.changeKey': 'Anahtarı değiştir',
+    'provider.proxyUrl': 'Proxy sunucu URL\'si (isteğe bağlı)',
+    'provider.proxyHint': 'Ayarlandığında istekler anahtarı tutan proxy üzerinden gider; tarayıcıda anahtar gerekmez.',
+
+    // API key dialog
+    'apiKey.title': 'Gemini API anahtarı',
+    'apiKey.explanation': 'Anahtar yalnızca bu tarayıcıda tutulur ve her istekle doğrudan Google\'a gönderilir. Hiçbir zaman uygulamanın derlemesine dahil edilmez.',
+    'apiKey.key': 'API anahtarı',
+    'apiKey.remember': 'Bu cihazda hatırla',
+    'apiKey.rememberHint': 'Aksi halde anahtar bu sekme kapatıldığında unutulur. Ortak bilgisayarlarda kullanmayın.',
+    'apiKey.getKey': 'Google AI Studio\'dan anahtar alın',
+    'apiKey.proxyHint': 'Ortak bir kurulum için bunun yerine proxy sunucusunu kullanın.',
+    'apiKey.remove': 'Anahtarı kaldır',
+
+    // Usage and costs
+    'usage.estimate': '~{tokens} token',
+    'usage.estimated': 'Tahmini kullanım: {estimate}',
+    'usage.summary': 'Kullanım:',
+    'usage.ofBudget': ' / {budget} bütçe',
+    'usage.thisSession': ' · bu oturumda {cost}',
+    'usage.deletedSession': 'Silinmiş oturum',
+    'usage.confirmClear': 'Tüm kullanım geçmişi temizlensin mi? Fiyatlar ve bütçe korunur.',
+    'usage.explanation': 'Maliyetler, sağlayıcının bildirdiği token sayılarına ve aşağıdaki fiyatlara (USD) göre hesaplanır. Bir işten önce gösterilen tahminler yaklaşıktır. "+" işareti, bazı çağrıların fiyatı olmayan bir model kullandığını gösterir.',
+    'usage.budget': 'Bütçe (USD)',
+    'usage.noLimit': 'Sınır yok',
+    'usage.budgetHint': 'Bütçeyi aşması tahmin edilen işler için onayınız istenir.',
+    'usage.model': 'Model',
+    'usage.calls': 'Çağrılar',
+    'usage.input': 'Girdi',
+    'usage.output': 'Çıktı',
+    'usage.audio': 'Ses',
+    'usage.cost': 'Maliyet',
+    'usage.minutes': '{minutes} dk',
+    'usage.noPrice': 'fiyat yok',
+    'usage.empty': 'Henüz kullanım kaydedilmedi.',
+    'usage.bySession': 'Oturuma göre',
+    'usage.prices': 'Fiyatlar (USD)',
+    'usage.price.input': 'Girdi / 1M',
+    'usage.price.audioInput': 'Ses girdisi / 1M',
+    'usage.price.output': 'Çıktı / 1M',
+    'usage.price.audioMinute': 'Ses / dk',
+    'usage.removeModel': '{model} kaldır',
+    'usage.addModelPlaceholder': 'Model ekleyin, ör. gemini-2.0-flash',
+    'usage.clearHistory': 'Kullanım geçmişini temizle',
+
+    // Library sidebar
+    'library.title': 'Kitaplık',
+    'library.search': 'Transkriptlerde ara...',
+    'library.searchLabel': 'Kitaplıkta ara',
+    'library.empty': 'Transkriptler buraya otomatik olarak kaydedilir.',
+    'library.noMatches': 'Eşleşen transkript yok.',
+    'library.sessionTitle': 'Oturum başlığı',
+    'library.lessons.one': '{count} ders',
+    'library.lessons.other': '{count} ders',
+    'library.rename': 'Yeniden adlandır',
+    'library.delete': 'Sil',
+    'library.confirmDelete': '"{title}" ve dersleri kitaplıktan silinsin mi?',
+
+    // Batch queue
+    'batch.title': 'Toplu Kuyruk',
+    'batch.progress': '({done}/{total} tamamlandı)',
+    'batch.parallelJobs': 'Paralel işler',
+    'batch.resume': 'Sürdür',
+    'batch.pause': 'Duraklat',
+    'batch.cancelAll': 'Tümünü iptal et',
+    'batch.clearFinished': 'Bitenleri temizle',
+    'batch.autoLesson': 'Her transkriptten sonra “{template}” şablonunu çalıştır',
+    'batch.instructionsPlaceholder': 'Talimatlar (varsayılan: dosya adı)',
+    'batch.pausedHint': 'Duraklatıldı — çalışan işler tamamlanır, yeni iş başlamaz.',
+    'batch.status.queued': 'Sırada',
+    'batch.status.running': 'Yazıya dökülüyor',
+    'batch.status.done': 'Tamamlandı',
+    'batch.status.error': 'Başarısız',
+    'batch.status.cancelled': 'İptal edildi',
+    'batch.lessonRunning': ' · ders oluşturuluyor',
+    'batch.lessonDone': ' · ders hazır',
+    'batch.lessonFailed': ' · ders başarısız',
+    'batch.open': 'Aç',
+    'batch.retry': 'Yeniden dene',
+    'batch.removeFromQueue': 'Kuyruktan kaldır',
+
+    // Trimming and silence removal
+    'preprocess.videoUndecodable': 'Bu videonun ses izi tarayıcıda çözümlenemiyor.',
+    'preprocess.audioUndecodable': 'Bu biçim tarayıcıda çözümlenemediği için ön işleme yapılmadan yüklenecek.',
+    'preprocess.analysing': 'Ses analiz ediliyor…',
+    'preprocess.trimStart': 'Kırpma başlangıcı',
+    'preprocess.trimEnd': 'Kırpma sonu',
+    'preprocess.silence': 'Sessizlik {start}–{end}',
+    'preprocess.keeping': '{start}–{end} arası korunuyor',
+    'preprocess.pausesShortened.one': ', {count} duraklama kısaltıldı (kırmızı gölgeli)',
+    'preprocess.pausesShortened.other': ', {count} duraklama kısaltıldı (kırmızı gölgeli)',
+    'preprocess.resetTrim': 'Kırpmayı sıfırla',
+    'preprocess.removeSilence': 'Sessizliği kaldır',
+    'preprocess.below': 'şu seviyenin altında:',
+    'preprocess.longerThan': 'şu süreden uzun:',
+    'preprocess.seconds': 'sn',
+    'preprocess.sampleRate': 'Örnekleme hızı',
+    'preprocess.mono': '{rate} kHz mono',
+    'preprocess.timelineNote': 'Transkript zamanları yine orijinal kayda göredir; böylece oynatma ve altyazılar senkronize kalır.',
+
+    // Transcript viewer
+    'viewer.subtitlesLabel': 'Transkript',
+    'viewer.speed': 'Hız',
+    'viewer.followPlayback': 'Oynatmayı takip et',
+    'viewer.shortcuts.playPause': 'oynat/duraklat',
+    'viewer.shortcuts.back': '{seconds} sn geri',
+    'viewer.shortcuts.forward': '{seconds} sn ileri',
+    'viewer.shortcuts.speed': 'hız',
+    'viewer.original': 'Orijinal: {text}',
+    'viewer.edited': 'düzenlendi',
+    'viewer.playFromHere': 'Buradan oynat',
+    'viewer.revert': 'Geri al',
+    'viewer.segmentText': '{time} konumundaki bölümün metni',
+
+    // Transcript editor
+    'editor.undo': 'Geri al',
+    'editor.undoTitle': 'Geri al (Ctrl+Z)',
+    'editor.redo': 'Yinele',
+    'editor.redoTitle': 'Yinele (Ctrl+Shift+Z)',
+    'editor.findReplace': 'Bul ve Değiştir',
+    'editor.glossary': 'Sözlük ({count})',
+    'editor.edited.one': '{count} bölüm düzenlendi',
+    'editor.edited.other': '{count} bölüm düzenlendi',
+
+    // Find and replace
+    'find.find': 'Bul',
+    'find.replaceWith': 'Şununla değiştir',
+    'find.matchCase': 'Büyük/küçük harf duyarlı',
+    'find.wholeWord': 'Tam sözcük',
+    'find.regex': 'Düzenli ifade',
+    'find.replaceAll': 'Tümünü değiştir',
+    'find.matches.one': '{count} eşleşme',
+    'find.matches.other': '{count} eşleşme',
+    'find.regexHint': 'Düzenli ifade modunda $1, $2… yakalama gruplarını belirtir.',
+
+    // Glossary
+    'glossary.hint': 'Düzeltmeler her yeni transkripte uygulanır ve doğru yazımlar modele ipucu olarak verilir.',
+    'glossary.heardAs': 'Duyulan (örn. jay unit)',
+    'glossary.correctTerm': 'Doğru terim (örn. JUnit)',
+    'glossary.apply': 'Sözlüğü bu transkripte uygula',
+
+    // Speakers
+    'speakers.hint': 'Bir konuşmacıyı yeniden adlandırmak tüm transkripti, dışa aktarımları ve dersler için kullanılan metni günceller. İki etiketi birleştirmek için onlara aynı adı verin.',
+    'speakers.speaker': 'Konuşmacı',
+    'speakers.talkTime': 'Konuşma süresi',
+    'speakers.share': 'Pay',
+    'speakers.segments': 'Bölümler',
+    'speakers.nameOf': '{name} adı',
+    'speakers.words.one': '{count} sözcük',
+    'speakers.words.other': '{count} sözcük',
+
+    // Translation
+    'translation.title': 'Çeviri',
+    'translation.targetLanguage': 'Hedef dil',
+    'translation.translate': 'Çevir',
+    'translation.retranslate': 'Yeniden çevir',
+    'translation.translating': 'Çevriliyor...',
+    'translation.translatingProgress': 'Çevriliyor ({done}/{total})...',
+    'translation.empty': 'Transkripti çevirerek orijinaliyle yan yana okuyabilir, altyazı olarak indirebilir veya derslerde kaynak olarak kullanabilirsiniz.',
+    'translation.summary': '{language} · {model} · {date}',
+    'translation.outdated': 'Çeviri yapıldıktan sonra bazı bölümler eklendi; bunları da çevirmek için yeniden çevirin.',
+    'translation.original': 'Orijinal',
+
+    // Prompt templates
+    'templates.title': 'İstem Şablonları',
+    'templates.builtIn': '(yerleşik)',
+    'templates.new': 'Yeni',
+    'templates.duplicate': 'Çoğalt',
+    'templates.delete': 'Sil',
+    'templates.importJson': 'JSON içe aktar',
+    'templates.exportJson': 'JSON dışa aktar',
+    'templates.readOnly': 'Yerleşik şablon düzenlenemez. Kendi sürümünüzü oluşturmak için çoğaltın.',
+    'templates.name': 'Ad',
+    'templates.outputLanguage': 'Çıktı dili',
+    'templates.model': 'Model (boş = sağlayıcı varsayılanı)',
+    'templates.systemPrompt': 'Sistem istemi',
+    'templates.userMessage': 'Kullanıcı mesajı — değişkenler:',
+    'templates.missingTranscript': 'Kullanıcı mesajı {{transcript}} içermiyor, bu yüzden model transkripti görmeyecek.',
+    'templates.use': 'Bu şablonu kullan',
+    'templates.confirmDelete': '"{name}" şablonu silinsin mi?',
+    'templates.defaultName': 'Yeni şablon',
+    'templates.copyName': '{name} (kopya)',
+    'templates.invalidJson': 'Dosya geçerli bir JSON değil.',
+    'templates.notAList': 'Dosya bir şablon listesi içermiyor.',
+    'templates.invalidTemplate': '{index}. şablonun adı veya kullanıcı mesajı şablonu eksik.',
+
+    // Lessons
+    'lesson.moveUp': 'Bölümü yukarı taşı',
+    'lesson.moveDown': 'Bölümü aşağı taşı',
+    'lesson.edit': 'Düzenle',
+    'lesson.writing': 'Yazılıyor...',
+    'lesson.regenerate': 'Yeniden Oluştur',
+    'lesson.sectionContent': '{heading} içeriği',
+    'lesson.discard': 'Vazgeç',
+    'lesson.title': 'Transkriptten Ders İçeriği Oluştur',
+    'lesson.template': 'Şablon:',
+    'lesson.manageTemplates': 'Şablonları Yönet',
+    'lesson.outputLanguage': 'Ders dili:',
+    'lesson.templateLanguage': 'Şablon varsayılanı ({language})',
+    'lesson.placeholder': 'Örn: \'Yapay Zeka ile Test Otomasyonu\' için bir ders oluşturun veya ders için özel talimatlar girin.',
+    'lesson.instructionsLabel': 'Ders talimatları',
+    'lesson.generating': 'Oluşturuluyor...',
+    'lesson.generate': 'Ders Oluştur',
+    'lesson.savedLessons': 'Kayıtlı dersler:',
+    'lesson.resultTitle': 'Oluşturulan Ders İçeriği:',
+    'lesson.missingInstructions': 'Lütfen bir talimat veya başlık girin.',
+    'lesson.providerMissing': 'Sağlayıcı yapılandırılmamış. Lütfen sağlayıcı ayarlarını kontrol edin.',
+    'lesson.cancelled': 'Ders oluşturma iptal edildi. Kısmi çıktı kaydedilmedi.',
+    'lesson.source': 'Transkript:',
+    'lesson.sourceOriginal': 'Orijinal',
+    'lesson.sourceTranslation': 'Çeviri ({language})',
+
+    // Quiz
+    'quiz.title': 'Çoktan Seçmeli Sınav',
+    'quiz.questionCount': 'Soru sayısı:',
+    'quiz.generating': 'Oluşturuluyor...',
+    'quiz.regenerate': 'Yeni Sınav Oluştur',
+    'quiz.generate': 'Sınav Oluştur',
+    'quiz.showAnswers': 'Cevap anahtarını göster',
+
+    // Questions about the transcript
+    'chat.conversation': 'Sohbet',
+    'chat.newConversation': 'Yeni sohbet',
+    'chat.new': 'Yeni',
+    'chat.confirmDelete': '"{title}" sohbeti silinsin mi?',
+    'chat.deleteConversation': 'Sohbeti sil',
+    'chat.intro': 'Kayıtla ilgili her şeyi sorun. Yanıtlar dayandıkları transkript satırlarını gösterir; ilgili yere gitmek için bir zaman damgasına tıklayın.',
+    'chat.thinking': 'Düşünüyor…',
+    'chat.followUpPlaceholder': 'Devam sorusu sorun…',
+    'chat.questionPlaceholder': 'Transkript hakkında bir soru sorun…',
+    'chat.questionLabel': 'Transkript hakkında soru',
+    'chat.ask': 'Sor',
+
+    // Errors (see services/errors.ts)
+    'error.cancelled': 'İşlem iptal edildi.',
+    'error.auth': 'API anahtarı reddedildi. Anahtarın doğru olduğunu ve seçilen modele erişimi olduğunu kontrol edin.',
+    'error.quota': 'API kotası veya hız sınırı aşıldı. Birkaç dakika bekleyin, paralel iş sayısını azaltın veya daha yüksek kotalı bir anahtar kullanın.',
+    'error.fileTooLarge': 'Dosya API için çok büyük. Kaydı kırpın, sıkıştırın veya daha küçük dosyalara bölün.',
+    'error.unsupportedFile': 'Dosya biçimi desteklenmiyor. Kaydı MP3, WAV veya M4A (videoyu MP4 veya WebM) biçimine dönüştürüp tekrar deneyin.',
+    'error.safety': 'Model, güvenlik filtreleri nedeniyle yanıt vermedi. Talimatları yeniden ifade edin veya kaydın farklı bir bölümünü deneyin.',
+    'error.emptyResponse': 'Model boş bir yanıt döndürdü. Tekrar deneyin veya sağlayıcı ayarlarından farklı bir model seçin.',
+    'error.network': 'API bağlantısı kesildi. İnternet bağlantınızı kontrol edip tekrar deneyin.',
+    'error.server': 'API geçici olarak kullanılamıyor. Birkaç dakika sonra tekrar deneyin.',
+    'error.unknown': 'Beklenmeyen bir hata oluştu.',
+};
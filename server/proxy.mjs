@@ -0,0 +1,193 @@
+// A small proxy that keeps the Gemini API key on the server. The app is pointed at
+// http://<host>:<port>/gemini in the provider settings; every request under that path is
+// forwarded to the Gemini API with the key added, including file uploads and streamed responses.
+// When the app has been built (`npm run build`), the proxy also serves it, so a single process
+// can be deployed for a team.
+//
+// Configuration (environment variables, or .env.local next to package.json):
+//   GEMINI_API_KEY   the key to use (required)
+//   PORT             port to listen on (default 8787)
+//   ALLOWED_ORIGINS  comma-separated other origins allowed to call the proxy from a browser, e.g. the
+//                    Vite dev server (default: none, only the app served by the proxy itself)
+//   STATIC_DIR       directory of the built app to serve (default: dist)
+
+import http from 'node:http';
+import { createReadStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+
+try {
+    process.loadEnvFile?.('.env.local');
+} catch {
+    // No .env.local; the environment is used as is.
+}
+
+const API_KEY = process.env.GEMINI_API_KEY;
+const PORT = Number(process.env.PORT) || 8787;
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+const STATIC_DIR = path.resolve(process.env.STATIC_DIR ?? 'dist');
+
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const PREFIX = '/gemini';
+// Only the calls the app makes are forwarded: generating content, uploading a file and
+// reading an uploaded file's state. Listing or deleting files, caches, tuning etc. are refused.
+const FORWARDED_ROUTES = [
+    { method: 'POST', path: /^\/v1(?:alpha|beta)?\/models\/[\w.-]+:(?:generateContent|streamGenerateContent)$/ },
+    { method: 'POST', path: /^\/upload\/v1(?:alpha|beta)?\/files$/ },
+    { method: 'GET', path: /^\/v1(?:alpha|beta)?\/files\/[\w-]+$/ },
+];
+
+// Hop-by-hop headers and headers that must not be passed on as they are.
+const DROPPED_REQUEST_HEADERS = ['host', 'connection', 'content-length', 'origin', 'referer', 'cookie', 'x-goog-api-key', 'authorization'];
+const DROPPED_RESPONSE_HEADERS = ['connection', 'content-length', 'content-encoding', 'transfer-encoding', 'set-cookie'];
+// The SDK reads these during resumable uploads.
+const EXPOSED_HEADERS = 'x-goog-upload-url, x-goog-upload-status, x-goog-upload-chunk-granularity, x-goog-upload-control-url, x-goog-upload-size-received';
+
+const CONTENT_TYPES = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.ico': 'image/x-icon',
+};
+
+if (!API_KEY) {
+    console.error('GEMINI_API_KEY is not set. Set it in the environment or in .env.local.');
+    process.exit(1);
+}
+
+/** The proxy's own address as seen by the browser, used to rewrite upload URLs. */
+const publicOrigin = (req) => {
+    const proto = req.headers['x-forwarded-proto']?.split(',')[0] ?? 'http';
+    return `${proto}://${req.headers['x-forwarded-host'] ?? req.headers.host}`;
+};
+
+/**
+ * Returns whether the request may use the key. The app served by the proxy itself always may;
+ * other sites only when listed in ALLOWED_ORIGINS, in which case CORS headers are added.
+ * Requests that carry no browser origin at all (scripts, curl) are refused. This keeps other
+ * websites from spending the key, but it is not authentication: put the proxy behind the
+ * team's network or login when it is reachable from the internet.
+ */
+const applyCors = (req, res) => {
+    const origin = req.headers.origin;
+    if (req.headers['sec-fetch-site'] === 'same-origin' || (origin && origin === publicOrigin(req))) return true;
+    if (!origin || !ALLOWED_ORIGINS.includes(origin)) return false;
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+    res.setHeader('Access-Control-Expose-Headers', EXPOSED_HEADERS);
+    return true;
+};
+
+const sendError = (res, status, message) => {
+    if (res.headersSent) {
+        res.destroy();
+        return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { code: status, message } }));
+};
+
+/** Forwards one request to the Gemini API with the key attached and streams the response back. */
+const forward = async (req, res, apiPath) => {
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (value === undefined || DROPPED_REQUEST_HEADERS.includes(name)) continue;
+        headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+    }
+    headers.set('x-goog-api-key', API_KEY);
+
+    const url = new URL(apiPath, UPSTREAM);
+    url.searchParams.delete('key');
+
+    // Stop the upstream request when the browser goes away, e.g. when a job is cancelled.
+    const controller = new AbortController();
+    res.on('close', () => {
+        if (!res.writableFinished) controller.abort();
+    });
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    const upstream = await fetch(url, {
+        method: req.method,
+        headers,
+        body: hasBody ? Readable.toWeb(req) : undefined,
+        duplex: hasBody ? 'half' : undefined,
+        signal: controller.signal,
+    });
+
+    upstream.headers.forEach((value, name) => {
+        if (DROPPED_RESPONSE_HEADERS.includes(name)) return;
+        // Upload chunks must come back through the proxy too, since the browser has no key.
+        if (name === 'x-goog-upload-url') value = value.replace(UPSTREAM, `${publicOrigin(req)}${PREFIX}`);
+        res.setHeader(name, value);
+    });
+    res.writeHead(upstream.status);
+    if (upstream.body) {
+        Readable.fromWeb(upstream.body).on('error', () => res.destroy()).pipe(res);
+    } else {
+        res.end();
+    }
+};
+
+/** Serves the built app, falling back to index.html. Returns false when there is no build; answers malformed paths itself. */
+const serveStatic = async (req, res, pathname) => {
+    // Anything outside STATIC_DIR, including siblings such as "dist-private", is never served.
+    const resolve = (name) => {
+        const file = path.resolve(STATIC_DIR, `.${name}`);
+        const relative = path.relative(STATIC_DIR, file);
+        return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? file : null;
+    };
+    let decoded;
+    try {
+        decoded = decodeURIComponent(pathname);
+    } catch {
+        sendError(res, 400, 'Malformed URL.');
+        return true;
+    }
+    for (const candidate of [resolve(decoded), resolve('/index.html')]) {
+        if (!candidate) continue;
+        const info = await stat(candidate).catch(() => null);
+        if (!info?.isFile()) continue;
+        res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(candidate)] ?? 'application/octet-stream' });
+        if (req.method === 'HEAD') res.end();
+        else createReadStream(candidate).pipe(res);
+        return true;
+    }
+    return false;
+};
+
+const server = http.createServer(async (req, res) => {
+    const { pathname, search } = new URL(req.url ?? '/', 'http://localhost');
+    try {
+        if (pathname.startsWith(`${PREFIX}/`)) {
+            if (!applyCors(req, res)) return sendError(res, 403, 'Origin not allowed.');
+            if (req.method === 'OPTIONS') {
+                res.writeHead(204, {
+                    'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+                    'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] ?? '*',
+                    'Access-Control-Max-Age': '600',
+                });
+                return res.end();
+            }
+            const apiPath = pathname.slice(PREFIX.length);
+            if (!FORWARDED_ROUTES.some(route => route.method === req.method && route.path.test(apiPath))) {
+                return sendError(res, 404, 'Not found.');
+            }
+            return await forward(req, res, `${apiPath}${search}`);
+        }
+        if ((req.method === 'GET' || req.method === 'HEAD') && await serveStatic(req, res, pathname)) return;
+        sendError(res, 404, 'Not found.');
+    } catch (err) {
+        if (err?.name === 'AbortError') return;
+        console.error(`${req.method} ${pathname} failed:`, err);
+        sendError(res, 502, 'The Gemini API could not be reached.');
+    }
+});
+
+server.listen(PORT, () => {
+    console.log(`Gemini proxy listening on http://localhost:${PORT}${PREFIX}`);
+    if (ALLOWED_ORIGINS.length > 0) console.log(`Also allowing browser requests from: ${ALLOWED_ORIGINS.join(', ')}`);
+});
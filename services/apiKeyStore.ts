@@ -0,0 +1,33 @@
+const GEMINI_KEY_STORAGE_KEY = 'transcriber.geminiApiKey';
+
+/** Where the key is kept: only for this tab's session, or on this device until removed. */
+export type ApiKeyPersistence = 'session' | 'local';
+
+export interface StoredApiKey {
+    key: string;
+    persistence: ApiKeyPersistence;
+}
+
+/** The Gemini API key entered in the app, or null when none has been entered. */
+export const loadGeminiApiKey = (): StoredApiKey | null => {
+    try {
+        const sessionKey = sessionStorage.getItem(GEMINI_KEY_STORAGE_KEY);
+        if (sessionKey) return { key: sessionKey, persistence: 'session' };
+        const localKey = localStorage.getItem(GEMINI_KEY_STORAGE_KEY);
+        return localKey ? { key: localKey, persistence: 'local' } : null;
+    } catch {
+        return null;
+    }
+};
+
+/** Saves the key in one storage and removes it from the other, so only one copy ever exists. */
+export const saveGeminiApiKey = ({ key, persistence }: StoredApiKey) => {
+    const [target, other] = persistence === 'local' ? [localStorage, sessionStorage] : [sessionStorage, localStorage];
+    target.setItem(GEMINI_KEY_STORAGE_KEY, key);
+    other.removeItem(GEMINI_KEY_STORAGE_KEY);
+};
+
+export const clearGeminiApiKey = () => {
+    sessionStorage.removeItem(GEMINI_KEY_STORAGE_KEY);
+    localStorage.removeItem(GEMINI_KEY_STORAGE_KEY);
+};
@@ -0,0 +1,43 @@
+import { ChatMessage, ChatThread, TranscriptSegment } from '../types';
+import { CHAT_SYSTEM_PROMPT } from '../constants';
+import { createId } from '../utils/id';
+import { segmentsToText } from '../utils/transcript';
+import { GenerateRequest } from './providers';
+
+const MAX_TITLE_LENGTH = 60;
+
+/**
+ * Builds the request for the next answer in a thread. The transcript is sent once, as part of
+ * the system instruction, and `messages` (ending with the new question) form the conversation.
+ */
+export const buildChatRequest = (segments: TranscriptSegment[], messages: ChatMessage[], model: string): GenerateRequest => ({
+    model,
+    systemInstruction: `${CHAT_SYSTEM_PROMPT}\n\n--- TRANSCRIPT ---\n${segmentsToText(segments)}`,
+    contents: messages.map(({ role, text }) => ({ role, text })),
+});
+
+export const createChatMessage = (role: ChatMessage['role'], text: string): ChatMessage => ({
+    id: createId(),
+    role,
+    text,
+    createdAt: Date.now(),
+});
+
+/** Starts a thread titled after its first question. */
+export const createThread = (question: string): ChatThread => {
+    const title = question.trim().replace(/\s+/g, ' ');
+    const now = Date.now();
+    return {
+        id: createId(),
+        title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title,
+        messages: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/** Replaces the thread in the list, or adds it at the end when it is new. */
+export const upsertThread = (threads: ChatThread[], thread: ChatThread): ChatThread[] =>
+    threads.some(item => item.id === thread.id)
+        ? threads.map(item => item.id === thread.id ? thread : item)
+        : [...threads, thread];
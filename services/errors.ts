@@ -0,0 +1,67 @@
+import { Locale, getActiveLocale, translate } from '../i18n';
+
+export type ErrorKind =
+    | 'cancelled'
+    | 'auth'
+    | 'quota'
+    | 'fileTooLarge'
+    | 'unsupportedFile'
+    | 'safety'
+    | 'emptyResponse'
+    | 'network'
+    | 'server'
+    | 'unknown';
+
+/** An error classified by cause, so the UI can explain it and callers know whether to retry. */
+export class AppError extends Error {
+    readonly kind: ErrorKind;
+    readonly status?: number;
+
+    constructor(kind: ErrorKind, message: string, options: { status?: number; cause?: unknown } = {}) {
+        super(message);
+        this.name = 'AppError';
+        this.kind = kind;
+        this.status = options.status;
+        if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+    }
+
+    /** Rate limits, server errors and dropped connections usually succeed on a later attempt. */
+    get retryable(): boolean {
+        return this.kind === 'network' || this.kind === 'server' || (this.kind === 'quota' && this.status === 429);
+    }
+}
+
+const getStatus = (err: any): number | undefined => {
+    if (typeof err?.status === 'number') return err.status;
+    const match = String(err?.message ?? '').match(/\b(?:status(?: code)?:?\s*)(\d{3})\b/i);
+    return match ? parseInt(match[1], 10) : undefined;
+};
+
+/** Maps any thrown value (SDK errors, fetch failures, aborts) onto an AppError. */
+export const classifyError = (err: unknown): AppError => {
+    if (err instanceof AppError) return err;
+
+    const error = err as any;
+    const message: string = error?.message ?? String(err);
+    const status = getStatus(error);
+    const make = (kind: ErrorKind) => new AppError(kind, message, { status, cause: err });
+
+    if (error?.name === 'AbortError' || /aborted/i.test(message)) return make('cancelled');
+    if (status === 401 || status === 403 || /api[ _-]?key|UNAUTHENTICATED|PERMISSION_DENIED/i.test(message)) return make('auth');
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return make('quota');
+    if (status === 413 || /too large|exceeds the (?:maximum|limit)|payload size/i.test(message)) return make('fileTooLarge');
+    if (status === 415 || /unsupported (?:mime|file|format|media)|invalid (?:mime|audio|file)/i.test(message)) return make('unsupportedFile');
+    if (/SAFETY|blocked|PROHIBITED_CONTENT/.test(message)) return make('safety');
+    if ((status !== undefined && status >= 500) || /UNAVAILABLE|INTERNAL|overloaded|DEADLINE_EXCEEDED/.test(message)) return make('server');
+    if (error instanceof TypeError || /network|failed to fetch|load failed|ECONNRESET|timed? ?out/i.test(message)) return make('network');
+    return make('unknown');
+};
+
+export const isCancellation = (err: unknown): boolean => classifyError(err).kind === 'cancelled';
+
+/** Returns a user-facing explanation of the error, with the raw message appended for unknown errors. */
+export const describeError = (err: unknown, locale: Locale = getActiveLocale()): string => {
+    const error = classifyError(err);
+    const text = translate(locale, `error.${error.kind}`);
+    return error.kind === 'unknown' && error.message ? `${text} (${error.message})` : text;
+};
@@ -0,0 +1,16 @@
+import { GlossaryEntry } from '../types';
+
+const GLOSSARY_STORAGE_KEY = 'transcriber.glossary';
+
+export const loadGlossary = (): GlossaryEntry[] => {
+    try {
+        const stored = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveGlossary = (glossary: GlossaryEntry[]) => {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(glossary));
+};
@@ -0,0 +1,69 @@
+import { GeneratedLesson, PromptTemplate } from '../types';
+import { createId } from '../utils/id';
+import { renderTemplate } from '../utils/template';
+import { GenerateRequest } from './providers';
+
+/**
+ * Fills a template with the transcript and instructions. The template's model wins over
+ * `defaultModel`; `language`, when given, replaces the template's output language.
+ */
+export const buildLessonRequest = (
+    template: PromptTemplate,
+    transcript: string,
+    instructions: string,
+    defaultModel: string,
+    language?: string,
+): GenerateRequest => {
+    const variables = { transcript, instructions, language: language || template.outputLanguage };
+    const systemInstruction = renderTemplate(template.systemPrompt, variables);
+    return {
+        model: template.model || defaultModel,
+        contents: renderTemplate(template.userMessageTemplate, variables),
+        systemInstruction: systemInstruction || undefined,
+    };
+};
+
+export const createLesson = (
+    template: PromptTemplate,
+    instructions: string,
+    request: GenerateRequest,
+    content: string,
+): GeneratedLesson => ({
+    id: createId(),
+    prompt: instructions,
+    templateId: template.id,
+    systemPrompt: request.systemInstruction ?? '',
+    model: request.model,
+    content,
+    createdAt: Date.now(),
+});
+
+/**
+ * Builds the request that rewrites one section of `lesson` from the transcript. The template's
+ * system prompt keeps the tone; the section is written in `language`, or else the template's
+ * output language. The reply should be the section body only.
+ */
+export const buildSectionRequest = (
+    template: PromptTemplate,
+    transcript: string,
+    lesson: string,
+    heading: string,
+    defaultModel: string,
+    language?: string,
+): GenerateRequest => {
+    const { model, systemInstruction } = buildLessonRequest(template, transcript, '', defaultModel, language);
+    const outputLanguage = language || template.outputLanguage;
+    return {
+        model,
+        systemInstruction,
+        contents: `Rewrite only the "${heading}" section of the lesson below, based on the transcript.
+Return only the content of this section: do not include the section heading, the other sections or any remarks.${outputLanguage ? `\nWrite it in ${outputLanguage}.` : ''}
+
+--- TRANSCRIPT ---
+${transcript}
+
+--- CURRENT LESSON ---
+${lesson}
+`,
+    };
+};
@@ -0,0 +1,94 @@
+import { LibrarySession, TranscriptSegment } from '../types';
+import { createId } from '../utils/id';
+
+const DB_NAME = 'audio-transcriber';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(SESSION_STORE)) {
+                    const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+                    store.createIndex('updatedAt', 'updatedAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+/** Runs a single request against the session store and resolves with its result. */
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDatabase();
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(SESSION_STORE, mode);
+        const request = run(transaction.objectStore(SESSION_STORE));
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+};
+
+/** Returns all sessions, most recently updated first. */
+export const listSessions = async (): Promise<LibrarySession[]> => {
+    const sessions = await withStore<LibrarySession[]>('readonly', store => store.getAll());
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getSession = (id: string): Promise<LibrarySession | undefined> =>
+    withStore<LibrarySession | undefined>('readonly', store => store.get(id));
+
+export const saveSession = async (session: LibrarySession): Promise<void> => {
+    await withStore('readwrite', store => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+    await withStore('readwrite', store => store.delete(id));
+};
+
+/** Case-insensitive match against the title, file name and transcript text. */
+export const matchesSearch = (session: LibrarySession, query: string): boolean => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return true;
+    return session.title.toLowerCase().includes(needle)
+        || session.fileName.toLowerCase().includes(needle)
+        || session.segments.some(segment => segment.text.toLowerCase().includes(needle));
+};
+
+/**
+ * Creates a new library entry for a freshly transcribed file. `id` lets callers reserve the
+ * id before transcribing, so that usage recorded on the way can be attributed to the session.
+ */
+export const createSession = (
+    file: File,
+    segments: TranscriptSegment[],
+    providerId: string,
+    transcriptionModel: string,
+    id: string = createId(),
+): LibrarySession => {
+    const now = Date.now();
+    return {
+        id,
+        title: file.name,
+        fileName: file.name,
+        fileSize: file.size,
+        fileType: file.type,
+        providerId,
+        transcriptionModel,
+        segments,
+        lessons: [],
+        createdAt: now,
+        updatedAt: now,
+    };
+};
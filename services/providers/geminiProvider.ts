@@ -0,0 +1,125 @@
+import { GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI, MediaModality } from '@google/genai';
+import { TRANSCRIPT_RESPONSE_SCHEMA } from '../../constants';
+import { parseTranscriptResponse } from '../../utils/transcript';
+import { AppError } from '../errors';
+import { AIProvider, CallOptions, GenerateRequest } from './types';
+
+const BLOCKING_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'RECITATION'];
+
+const toContents = (contents: GenerateRequest['contents']) =>
+    typeof contents === 'string'
+        ? contents
+        : contents.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] }));
+
+/** Reports the usage metadata of a response. Thinking tokens are billed as output. */
+const reportUsage = (model: string, metadata: GenerateContentResponseUsageMetadata | undefined, { onUsage }: CallOptions) => {
+    if (!metadata || !onUsage) return;
+    onUsage({
+        model,
+        inputTokens: metadata.promptTokenCount ?? 0,
+        audioInputTokens: metadata.promptTokensDetails?.find(detail => detail.modality === MediaModality.AUDIO)?.tokenCount ?? 0,
+        outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+        audioSeconds: 0,
+    });
+};
+
+/** Throws a safety error if the prompt or the response was blocked. */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+        throw new AppError('safety', `The response was blocked (${blockReason ?? finishReason}).`);
+    }
+};
+
+/** Sent instead of a key when going through the proxy server, which replaces it with the real one. */
+const PROXY_API_KEY = 'proxy';
+
+export type GeminiConnection = { apiKey: string } | { proxyUrl: string };
+
+/**
+ * Talks to the Gemini API directly with a key entered by the user, or through the proxy server
+ * in `server/`, which holds the key so that it never reaches the browser.
+ */
+export const createGeminiProvider = (connection: GeminiConnection): AIProvider => {
+    const ai = 'proxyUrl' in connection
+        ? new GoogleGenAI({ apiKey: PROXY_API_KEY, httpOptions: { baseUrl: connection.proxyUrl } })
+        : new GoogleGenAI({ apiKey: connection.apiKey });
+
+    return {
+        id: 'gemini',
+
+        async upload(file, options = {}) {
+            // The SDK handles polling until the uploaded file is ready.
+            const uploadedFile = await ai.files.upload({
+                file,
+                config: { mimeType: file.type || undefined, abortSignal: options.signal },
+            });
+            if (!uploadedFile?.uri) {
+                throw new Error("File upload failed: The API did not return a file object.");
+            }
+            return { uri: uploadedFile.uri, mimeType: uploadedFile.mimeType ?? file.type };
+        },
+
+        async transcribe(media, { model, prompt }, options = {}) {
+            const audioPart = {
+                fileData: {
+                    mimeType: media.mimeType,
+                    fileUri: media.uri,
+                },
+            };
+
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text: prompt }, audioPart] },
+                config: {
+                    responseMimeType: 'application/json',
+                    responseSchema: TRANSCRIPT_RESPONSE_SCHEMA,
+                    abortSignal: options.signal,
+                },
+            });
+            reportUsage(model, response.usageMetadata, options);
+            assertNotBlocked(response);
+
+            // Falls back to line-based parsing if the model ignores the schema.
+            return parseTranscriptResponse(response.text ?? '');
+        },
+
+        async generate({ model, contents, systemInstruction }, options = {}) {
+            const response = await ai.models.generateContent({
+                model,
+                contents: toContents(contents),
+                config: { systemInstruction, abortSignal: options.signal },
+            });
+            reportUsage(model, response.usageMetadata, options);
+            assertNotBlocked(response);
+            if (!response.text) {
+                throw new AppError('emptyResponse', "The response was empty.");
+            }
+            return response.text;
+        },
+
+        async *stream({ model, contents, systemInstruction }, options = {}) {
+            const responseStream = await ai.models.generateContentStream({
+                model,
+                contents: toContents(contents),
+                config: { systemInstruction, abortSignal: options.signal },
+            });
+            let received = false;
+            // Every chunk carries the running totals, so the last one has the final usage.
+            let usage: GenerateContentResponseUsageMetadata | undefined;
+            for await (const chunk of responseStream) {
+                usage = chunk.usageMetadata ?? usage;
+                assertNotBlocked(chunk);
+                if (chunk.text) {
+                    received = true;
+                    yield chunk.text;
+                }
+            }
+            reportUsage(model, usage, options);
+            if (!received) {
+                throw new AppError('emptyResponse', "The response was empty.");
+            }
+        },
+    };
+};
@@ -0,0 +1,72 @@
+import { AIProvider, ProviderId, ProviderSettings } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAICompatibleProvider } from './openAICompatibleProvider';
+
+export * from './types';
+
+/** The selectable providers; their names are in the UI catalogs under "provider.label.<id>". */
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai', 'mock'];
+
+/** Suggested models per provider; any model name can still be typed in. */
+export const MODEL_SUGGESTIONS: Record<ProviderId, { transcription: string[]; generation: string[] }> = {
+    gemini: {
+        transcription: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+        generation: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+    },
+    openai: {
+        transcription: ['whisper-1'],
+        generation: ['gpt-4o-mini', 'llama'],
+    },
+    mock: {
+        transcription: ['mock-transcriber'],
+        generation: ['mock-writer'],
+    },
+};
+
+const SETTINGS_STORAGE_KEY = 'transcriber.providerSettings';
+
+export const getDefaultProviderSettings = (hasGeminiKey: boolean): ProviderSettings => {
+    const providerId: ProviderId = hasGeminiKey ? 'gemini' : 'mock';
+    return {
+        providerId,
+        transcriptionModel: MODEL_SUGGESTIONS[providerId].transcription[0],
+        generationModel: MODEL_SUGGESTIONS[providerId].generation[0],
+        geminiProxyUrl: '',
+        openAIBaseUrl: 'http://localhost:8080/v1',
+        openAIApiKey: '',
+        transcriptionLanguage: '',
+    };
+};
+
+export const loadProviderSettings = (hasGeminiKey: boolean): ProviderSettings => {
+    const defaults = getDefaultProviderSettings(hasGeminiKey);
+    try {
+        const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+        return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch {
+        return defaults;
+    }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Builds the provider selected in `settings`, or returns null when it cannot be configured.
+ * Gemini goes through the proxy server when one is set, and otherwise needs `geminiApiKey`.
+ */
+export const createProvider = (settings: ProviderSettings, geminiApiKey?: string): AIProvider | null => {
+    switch (settings.providerId) {
+        case 'gemini':
+            if (settings.geminiProxyUrl) return createGeminiProvider({ proxyUrl: settings.geminiProxyUrl });
+            return geminiApiKey ? createGeminiProvider({ apiKey: geminiApiKey }) : null;
+        case 'openai':
+            return settings.openAIBaseUrl
+                ? createOpenAICompatibleProvider({ baseUrl: settings.openAIBaseUrl, apiKey: settings.openAIApiKey })
+                : null;
+        case 'mock':
+            return createMockProvider();
+    }
+};
@@ -0,0 +1,134 @@
+import { TranscriptSegment } from '../../types';
+import { QUIZ_SYSTEM_PROMPT, TRANSLATION_SYSTEM_PROMPT } from '../../constants';
+import { sleep } from '../../utils/retry';
+import { AUDIO_TOKENS_PER_SECOND, estimateTokens, requestText } from '../../utils/usage';
+import { AIProvider, CallOptions, GenerateRequest } from './types';
+
+const SENTENCES = [
+    'Welcome to this session, today we are looking at how generative AI fits into software testing.',
+    'The first idea is that test cases can be drafted from requirements in a few seconds.',
+    'Of course every generated test still needs a human review before it goes into the suite.',
+    'Let me show an example using a login form with three validation rules.',
+    'Notice how the model suggests edge cases we did not list explicitly.',
+    'A good practice is to keep prompts versioned next to the tests they produce.',
+    'That brings us to the question of flaky tests and how to detect them early.',
+    'To sum up, treat the model as a fast assistant and keep the final decision with the team.',
+];
+
+const SEGMENT_SECONDS = 8;
+const DEFAULT_SEGMENT_COUNT = 6;
+
+/** A quiz in the JSON shape `QUIZ_SYSTEM_PROMPT` asks for, one question per sentence. */
+const mockQuiz = (contents: string) => {
+    const count = Number(contents.match(/Write (\d+) questions/)?.[1] ?? 5);
+    const questions = Array.from({ length: count }, (_, i) => {
+        const sentence = SENTENCES[i % SENTENCES.length];
+        const answer = i % 4;
+        const options = [0, 1, 2, 3].map(option => option === answer ? sentence : SENTENCES[(i + option + 1) % SENTENCES.length]);
+        return { question: `Which statement was made in the recording? (${i + 1})`, options, answer, explanation: `The speaker said: "${sentence}"` };
+    });
+    return JSON.stringify({ questions });
+};
+
+/** Translations in the JSON shape `TRANSLATION_SYSTEM_PROMPT` asks for: each text tagged with the language. */
+const mockTranslation = (contents: string) => {
+    const language = contents.match(/into (.+?)\.\n/)?.[1] ?? '?';
+    const { segments } = JSON.parse(contents.slice(contents.indexOf('{'))) as { segments: { id: number; text: string }[] };
+    return JSON.stringify({ segments: segments.map(({ id, text }) => ({ id, text: `[${language}] ${text}` })) });
+};
+
+const mockResponse = ({ contents, systemInstruction }: GenerateRequest) => {
+    if (typeof contents === 'string' && systemInstruction === QUIZ_SYSTEM_PROMPT) return mockQuiz(contents);
+    if (typeof contents === 'string' && systemInstruction === TRANSLATION_SYSTEM_PROMPT) return mockTranslation(contents);
+    if (typeof contents === 'string') {
+        return `### Mock Response
+
+This response was produced by the offline mock provider, so no model was called.
+
+* Input length: ${contents.length} characters
+* First line: ${contents.split('\n')[0].slice(0, 120)}
+`;
+    }
+
+    // Conversations get a short answer that cites the first timestamp of the context, if any.
+    const question = contents[contents.length - 1]?.text ?? '';
+    const citation = systemInstruction?.match(/\[(\d+:\d{2}(?::\d{2})?)\]/)?.[1];
+    return `This answer was produced by the offline mock provider (turn ${Math.ceil(contents.length / 2)}). `
+        + `You asked: “${question.slice(0, 120)}”.${citation ? ` The recording starts on this topic at [${citation}].` : ''}`;
+};
+
+/** Estimates the duration of a 16-bit mono WAV from its size; other formats get a fixed length. */
+const estimateDuration = (blob: Blob): number => {
+    if (blob.type !== 'audio/wav') return DEFAULT_SEGMENT_COUNT * SEGMENT_SECONDS;
+    return Math.max(SEGMENT_SECONDS, (blob.size - 44) / (2 * 16000));
+};
+
+/** Reports plausible token counts so that the usage ledger can be tried out offline. */
+const reportUsage = (request: GenerateRequest, response: string, { onUsage }: CallOptions) => onUsage?.({
+    model: request.model,
+    inputTokens: estimateTokens(requestText(request)),
+    audioInputTokens: 0,
+    outputTokens: estimateTokens(response),
+    audioSeconds: 0,
+});
+
+/**
+ * A deterministic, offline provider for demos and development. It never touches the network
+ * and always returns the same output for the same input.
+ */
+export const createMockProvider = (latencyMs = 300): AIProvider => {
+    const durations = new Map<string, number>();
+    let uploadCount = 0;
+
+    return {
+        id: 'mock',
+
+        async upload(file, { signal } = {}) {
+            await sleep(latencyMs, signal);
+            const uri = `mock://files/${uploadCount++}`;
+            durations.set(uri, estimateDuration(file));
+            return { uri, mimeType: file.type || 'audio/wav' };
+        },
+
+        async transcribe(media, request, { signal, onUsage } = {}) {
+            await sleep(latencyMs, signal);
+            const duration = durations.get(media.uri) ?? DEFAULT_SEGMENT_COUNT * SEGMENT_SECONDS;
+            const count = Math.max(1, Math.floor(duration / SEGMENT_SECONDS));
+            const segments: TranscriptSegment[] = [];
+            for (let i = 0; i < count; i++) {
+                segments.push({
+                    id: i,
+                    start: i * SEGMENT_SECONDS,
+                    end: Math.min(duration, (i + 1) * SEGMENT_SECONDS),
+                    speaker: `Speaker ${(i % 2) + 1}`,
+                    text: SENTENCES[i % SENTENCES.length],
+                });
+            }
+            const audioTokens = Math.round(duration * AUDIO_TOKENS_PER_SECOND);
+            onUsage?.({
+                model: request.model,
+                inputTokens: estimateTokens(request.prompt) + audioTokens,
+                audioInputTokens: audioTokens,
+                outputTokens: estimateTokens(segments.map(segment => segment.text).join('\n')),
+                audioSeconds: duration,
+            });
+            return segments;
+        },
+
+        async generate(request, options = {}) {
+            await sleep(latencyMs, options.signal);
+            const response = mockResponse(request);
+            reportUsage(request, response, options);
+            return response;
+        },
+
+        async *stream(request, options = {}) {
+            const response = mockResponse(request);
+            for (const word of response.split(/(?<=\s)/)) {
+                await sleep(20, options.signal);
+                yield word;
+            }
+            reportUsage(request, response, options);
+        },
+    };
+};
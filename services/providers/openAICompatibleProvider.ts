@@ -0,0 +1,155 @@
+import { parseTranscriptResponse } from '../../utils/transcript';
+import { AppError, classifyError } from '../errors';
+import { AIProvider, CallOptions, GenerateRequest } from './types';
+
+interface OpenAICompatibleOptions {
+    baseUrl: string;
+    apiKey?: string;
+}
+
+interface VerboseTranscription {
+    text?: string;
+    segments?: { start: number; end: number; text: string }[];
+    /** Seconds of audio; whisper-1 is billed by it. */
+    duration?: number;
+    /** Token counts reported by token-billed transcription models. */
+    usage?: { input_tokens?: number; output_tokens?: number; input_token_details?: { audio_tokens?: number } };
+}
+
+interface ChatUsage {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+}
+
+const reportUsage = (model: string, usage: ChatUsage | undefined, onUsage: CallOptions['onUsage']) => {
+    if (!usage || !onUsage) return;
+    onUsage({
+        model,
+        inputTokens: usage.prompt_tokens ?? 0,
+        audioInputTokens: 0,
+        outputTokens: usage.completion_tokens ?? 0,
+        audioSeconds: 0,
+    });
+};
+
+/**
+ * Talks to any server implementing the OpenAI REST API, e.g. a local whisper.cpp or
+ * llama.cpp server. Such servers have no file store, so uploads stay in memory and the
+ * audio is posted with each transcription request.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, apiKey }: OpenAICompatibleOptions): AIProvider => {
+    const root = baseUrl.replace(/\/+$/, '');
+    const authHeaders: Record<string, string> = apiKey ? { Authorization: `Bearer ${apiKey}` } : {};
+
+    const request = async (path: string, init: RequestInit): Promise<Response> => {
+        const response = await fetch(`${root}${path}`, {
+            ...init,
+            headers: { ...authHeaders, ...init.headers },
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            const error = Object.assign(
+                new Error(`Request to ${path} failed with status ${response.status}${detail ? `: ${detail}` : ''}`),
+                { status: response.status },
+            );
+            throw classifyError(error);
+        }
+        return response;
+    };
+
+    const chatBody = ({ model, contents, systemInstruction }: GenerateRequest, stream: boolean) => JSON.stringify({
+        model,
+        stream,
+        // Asks for a final event with the token counts; servers that do not know the option ignore it.
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        messages: [
+            ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+            ...(typeof contents === 'string'
+                ? [{ role: 'user', content: contents }]
+                : contents.map(turn => ({ role: turn.role === 'model' ? 'assistant' : 'user', content: turn.text }))),
+        ],
+    });
+
+    return {
+        id: 'openai',
+
+        async upload(file) {
+            return { uri: `memory://${Date.now()}`, mimeType: file.type || 'application/octet-stream', blob: file };
+        },
+
+        async transcribe(media, { model, vocabulary, language }, { signal, onUsage } = {}) {
+            if (!media.blob) {
+                throw new Error("File upload failed: The media is not available locally.");
+            }
+            const form = new FormData();
+            form.append('file', media.blob, media.mimeType === 'audio/wav' ? 'audio.wav' : 'audio');
+            form.append('model', model);
+            form.append('response_format', 'verbose_json');
+            if (language) form.append('language', language);
+            // Whisper-style servers use the prompt as preceding context, which biases spelling.
+            if (vocabulary.length > 0) form.append('prompt', vocabulary.join(', '));
+
+            const response = await request('/audio/transcriptions', { method: 'POST', body: form, signal });
+            const result: VerboseTranscription = await response.json();
+            onUsage?.({
+                model,
+                inputTokens: result.usage?.input_tokens ?? 0,
+                audioInputTokens: result.usage?.input_token_details?.audio_tokens ?? 0,
+                outputTokens: result.usage?.output_tokens ?? 0,
+                audioSeconds: result.duration ?? 0,
+            });
+            if (result.segments?.length) {
+                return parseTranscriptResponse(JSON.stringify({ segments: result.segments }));
+            }
+            return parseTranscriptResponse(result.text ?? '');
+        },
+
+        async generate(generateRequest, { signal, onUsage } = {}) {
+            const response = await request('/chat/completions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: chatBody(generateRequest, false),
+                signal,
+            });
+            const result = await response.json();
+            reportUsage(generateRequest.model, result.usage, onUsage);
+            const content = result.choices?.[0]?.message?.content;
+            if (!content) {
+                throw new AppError('emptyResponse', "The response was empty.");
+            }
+            return content;
+        },
+
+        async *stream(generateRequest, { signal, onUsage } = {}) {
+            const response = await request('/chat/completions', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: chatBody(generateRequest, true),
+                signal,
+            });
+            if (!response.body) return;
+
+            // Server-sent events: one "data: {json}" line per delta, terminated by "data: [DONE]".
+            const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            let usage: ChatUsage | undefined;
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() ?? '';
+                for (const line of lines) {
+                    const data = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+                    const event = JSON.parse(data);
+                    // With include_usage, the final event has no choices and carries the totals.
+                    usage = event.usage ?? usage;
+                    const delta = event.choices?.[0]?.delta?.content;
+                    if (delta) yield delta;
+                }
+            }
+            reportUsage(generateRequest.model, usage, onUsage);
+        },
+    };
+};
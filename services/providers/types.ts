@@ -0,0 +1,77 @@
+import { TranscriptSegment } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+/** A media file that has been handed to a provider and can be referenced in later calls. */
+export interface UploadedMedia {
+    uri: string;
+    mimeType: string;
+    /** Kept for providers without a file store, which send the bytes along with each request. */
+    blob?: Blob;
+}
+
+export interface TranscribeRequest {
+    model: string;
+    prompt: string;
+    /** Domain terms the recording is likely to contain, as a spelling hint. */
+    vocabulary: string[];
+    /** ISO 639-1 code of the spoken language, or undefined to let the model detect it. */
+    language?: string;
+}
+
+/** One message of a multi-turn conversation. */
+export interface ChatTurn {
+    role: 'user' | 'model';
+    text: string;
+}
+
+export interface GenerateRequest {
+    model: string;
+    /** A single user message, or a whole conversation ending with a user turn. */
+    contents: string | ChatTurn[];
+    systemInstruction?: string;
+}
+
+/** Token counts of one call, as reported by the provider. */
+export interface TokenUsage {
+    model: string;
+    inputTokens: number;
+    /** The part of `inputTokens` spent on audio, which some models price differently. */
+    audioInputTokens: number;
+    outputTokens: number;
+    /** Seconds of audio processed, for models priced per minute. */
+    audioSeconds: number;
+}
+
+export interface CallOptions {
+    signal?: AbortSignal;
+    /** Receives the token usage once a call has finished, if the provider reports it. */
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * The operations the app needs from a transcription/LLM backend. Every call can be
+ * cancelled through `options.signal`; failures should be thrown as (or classifiable into) AppErrors.
+ */
+export interface AIProvider {
+    id: ProviderId;
+    upload(file: Blob, options?: CallOptions): Promise<UploadedMedia>;
+    /** Returns segments with times relative to the start of the uploaded media. */
+    transcribe(media: UploadedMedia, request: TranscribeRequest, options?: CallOptions): Promise<TranscriptSegment[]>;
+    generate(request: GenerateRequest, options?: CallOptions): Promise<string>;
+    /** Yields the response text incrementally. */
+    stream(request: GenerateRequest, options?: CallOptions): AsyncIterable<string>;
+}
+
+export interface ProviderSettings {
+    providerId: ProviderId;
+    transcriptionModel: string;
+    generationModel: string;
+    /** URL of the proxy server that holds the Gemini key, e.g. "http://localhost:8787/gemini"; empty to call Gemini directly. */
+    geminiProxyUrl: string;
+    /** Base URL of an OpenAI-compatible server, e.g. "http://localhost:8080/v1". */
+    openAIBaseUrl: string;
+    openAIApiKey: string;
+    /** ISO 639-1 code of the spoken language; empty to detect it automatically. */
+    transcriptionLanguage: string;
+}
@@ -0,0 +1,58 @@
+import { Quiz, QuizQuestion } from '../types';
+import { QUIZ_SYSTEM_PROMPT } from '../constants';
+import { createId } from '../utils/id';
+import { AppError } from './errors';
+import { GenerateRequest } from './providers';
+
+export const QUIZ_SIZES = [5, 10, 15, 20];
+
+export const buildQuizRequest = (transcript: string, questionCount: number, language: string, model: string): GenerateRequest => ({
+    model,
+    systemInstruction: QUIZ_SYSTEM_PROMPT,
+    contents: `Write ${questionCount} questions${language ? ` in ${language}` : ''} about this transcript.\n\n--- TRANSCRIPT ---\n${transcript}`,
+});
+
+const toQuestion = (item: unknown): QuizQuestion | null => {
+    if (!item || typeof item !== 'object') return null;
+    const { question, options, answer, explanation } = item as Record<string, unknown>;
+    if (typeof question !== 'string' || !Array.isArray(options)) return null;
+    // A blank or non-text option is not dropped: that would shift the index the answer refers to.
+    if (!options.every(option => typeof option === 'string' && option.trim() !== '')) return null;
+    const texts = options as string[];
+    const answerIndex = Number(answer);
+    if (texts.length < 2 || !Number.isInteger(answerIndex) || answerIndex < 0 || answerIndex >= texts.length) return null;
+    return {
+        question: question.trim(),
+        options: texts.map(text => text.trim()),
+        answerIndex,
+        explanation: typeof explanation === 'string' && explanation.trim() ? explanation.trim() : undefined,
+    };
+};
+
+/**
+ * Reads the questions from a model reply. Code fences and text around the JSON are ignored,
+ * and malformed questions are skipped rather than failing the whole quiz.
+ */
+export const parseQuizResponse = (text: string): QuizQuestion[] => {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    let data: unknown;
+    try {
+        data = start >= 0 && end > start ? JSON.parse(text.slice(start, end + 1)) : null;
+    } catch (err) {
+        throw new AppError('emptyResponse', "The quiz could not be read from the response.", { cause: err });
+    }
+    const items = Array.isArray(data) ? data : (data as { questions?: unknown } | null)?.questions;
+    const questions = Array.isArray(items) ? items.map(toQuestion).filter((question): question is QuizQuestion => question !== null) : [];
+    if (questions.length === 0) {
+        throw new AppError('emptyResponse', "The response did not contain any quiz questions.");
+    }
+    return questions;
+};
+
+export const createQuiz = (questions: QuizQuestion[], model: string): Quiz => ({
+    id: createId(),
+    questions,
+    model,
+    createdAt: Date.now(),
+});
@@ -0,0 +1,104 @@
+import { PromptTemplate } from '../types';
+import { DEFAULT_TEMPLATE_ID, LESSON_GENERATION_SYSTEM_PROMPT, LESSON_USER_MESSAGE_TEMPLATE } from '../constants';
+import { createId } from '../utils/id';
+import { getActiveLocale, translate } from '../i18n';
+
+const TEMPLATES_STORAGE_KEY = 'transcriber.templates';
+const SELECTED_TEMPLATE_STORAGE_KEY = 'transcriber.selectedTemplate';
+const LESSON_LANGUAGE_STORAGE_KEY = 'transcriber.lessonLanguage';
+
+export const DEFAULT_TEMPLATE: PromptTemplate = {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'AI & Yazılım Testi Dersi',
+    systemPrompt: LESSON_GENERATION_SYSTEM_PROMPT,
+    userMessageTemplate: LESSON_USER_MESSAGE_TEMPLATE,
+    model: '',
+    outputLanguage: 'Türkçe',
+    builtIn: true,
+    createdAt: 0,
+    updatedAt: 0,
+};
+
+/** Returns the built-in template followed by the user's own templates. */
+export const loadTemplates = (): PromptTemplate[] => {
+    try {
+        const stored = localStorage.getItem(TEMPLATES_STORAGE_KEY);
+        const custom: PromptTemplate[] = stored ? JSON.parse(stored) : [];
+        return [DEFAULT_TEMPLATE, ...custom.filter(template => !template.builtIn)];
+    } catch {
+        return [DEFAULT_TEMPLATE];
+    }
+};
+
+/** Persists the user's templates; built-in templates are never written to storage. */
+export const saveTemplates = (templates: PromptTemplate[]) => {
+    localStorage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(templates.filter(template => !template.builtIn)));
+};
+
+export const loadSelectedTemplateId = (): string =>
+    localStorage.getItem(SELECTED_TEMPLATE_STORAGE_KEY) ?? DEFAULT_TEMPLATE_ID;
+
+export const saveSelectedTemplateId = (id: string) => {
+    localStorage.setItem(SELECTED_TEMPLATE_STORAGE_KEY, id);
+};
+
+/** The language lessons are written in (ISO 639-1 code), or '' to use each template's own output language. */
+export const loadLessonLanguage = (): string =>
+    localStorage.getItem(LESSON_LANGUAGE_STORAGE_KEY) ?? '';
+
+export const saveLessonLanguage = (language: string) => {
+    localStorage.setItem(LESSON_LANGUAGE_STORAGE_KEY, language);
+};
+
+export const createTemplate = (fields: Partial<PromptTemplate> = {}): PromptTemplate => {
+    const now = Date.now();
+    return {
+        name: translate(getActiveLocale(), 'templates.defaultName'),
+        systemPrompt: '',
+        userMessageTemplate: 'Transcript:\n{{transcript}}\n\nInstructions:\n{{instructions}}\n\nRespond in {{language}}.',
+        model: '',
+        outputLanguage: 'English',
+        ...fields,
+        id: createId(),
+        builtIn: false,
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+export const duplicateTemplate = (template: PromptTemplate): PromptTemplate =>
+    createTemplate({ ...template, name: translate(getActiveLocale(), 'templates.copyName', { name: template.name }) });
+
+export const exportTemplatesJson = (templates: PromptTemplate[]): string =>
+    JSON.stringify({ version: 1, templates: templates.filter(template => !template.builtIn) }, null, 2);
+
+/**
+ * Parses templates exported by `exportTemplatesJson` (or a bare array of templates).
+ * Imported templates always get fresh ids so they never overwrite existing ones.
+ */
+export const parseTemplatesJson = (json: string): PromptTemplate[] => {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error(translate(getActiveLocale(), 'templates.invalidJson'));
+    }
+
+    const items = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+    if (!Array.isArray(items)) {
+        throw new Error(translate(getActiveLocale(), 'templates.notAList'));
+    }
+
+    return items.map((item, index) => {
+        if (!item || typeof item.name !== 'string' || typeof item.userMessageTemplate !== 'string') {
+            throw new Error(translate(getActiveLocale(), 'templates.invalidTemplate', { index: index + 1 }));
+        }
+        return createTemplate({
+            name: item.name,
+            systemPrompt: typeof item.systemPrompt === 'string' ? item.systemPrompt : '',
+            userMessageTemplate: item.userMessageTemplate,
+            model: typeof item.model === 'string' ? item.model : '',
+            outputLanguage: typeof item.outputLanguage === 'string' ? item.outputLanguage : '',
+        });
+    });
+};
@@ -0,0 +1,139 @@
+import { ChunkState, GlossaryEntry, TranscriptSegment } from '../types';
+import { decodeAudioFile, renderRanges, sliceToWav, toMono, SPEECH_SAMPLE_RATE } from '../utils/audio';
+import { ChunkWindow, mergeChunkSegments, offsetSegments, planChunks } from '../utils/chunking';
+import { runWithConcurrency } from '../utils/concurrency';
+import { applyGlossary } from '../utils/findReplace';
+import { isVideoFile } from '../utils/files';
+import { RetryOptions } from '../utils/retry';
+import { alignChunkSpeakers, normalizeSpeakers } from '../utils/speakers';
+import { PreprocessOptions, TimeRange, detectSilences, planKeptRanges, remapSegments } from '../utils/preprocess';
+import { AppError, classifyError, describeError } from './errors';
+import { AIProvider, CallOptions } from './providers';
+import { getVocabulary, transcribeAudio } from './transcriptionService';
+
+export interface PreparedAudio {
+    /** The decoded recording, or null when the browser cannot decode the format. */
+    buffer: AudioBuffer | null;
+    chunks: ChunkState[];
+    /**
+     * The original time ranges the (preprocessed) buffer is made of, or null when the buffer
+     * follows the original timeline. Chunk times refer to the buffer.
+     */
+    keptRanges: TimeRange[] | null;
+}
+
+export interface TranscriptionOptions {
+    provider: AIProvider;
+    model: string;
+    glossary: GlossaryEntry[];
+    /** ISO 639-1 code of the spoken language; undefined to detect it. */
+    language?: string;
+    /** Cancels uploads, requests and retry waits. */
+    signal?: AbortSignal;
+    onRetry?: RetryOptions['onRetry'];
+    /** Receives the token usage of every transcribed chunk. */
+    onUsage?: CallOptions['onUsage'];
+}
+
+/**
+ * Decodes the file and plans its chunks. With `preprocess`, the audio is first trimmed and
+ * stripped of long silences. Undecodable audio files become a single whole-file chunk,
+ * unprocessed. Videos are never uploaded: their audio track is decoded locally, keeping the
+ * video's timeline, and a video whose audio cannot be decoded is rejected.
+ */
+export const prepareAudio = async (file: Blob, preprocess: PreprocessOptions | null = null): Promise<PreparedAudio> => {
+    let buffer: AudioBuffer | null = null;
+    try {
+        buffer = await decodeAudioFile(file, preprocess?.sampleRate ?? SPEECH_SAMPLE_RATE);
+    } catch (err) {
+        if (isVideoFile(file)) {
+            throw new AppError('unsupportedFile', 'Could not extract the audio track of the video in the browser.', { cause: err });
+        }
+        // Formats the browser cannot decode are still supported by the API, just not in chunks.
+        console.warn('Could not decode audio locally, sending the file as a single chunk.', err);
+    }
+
+    let keptRanges: TimeRange[] | null = null;
+    if (buffer && preprocess) {
+        const silences = preprocess.removeSilence
+            ? detectSilences(toMono(buffer), buffer.sampleRate, preprocess.silenceThresholdDb, preprocess.minSilenceSeconds)
+            : [];
+        keptRanges = planKeptRanges(buffer.duration, preprocess, silences);
+        buffer = renderRanges(buffer, keptRanges);
+    }
+
+    const windows: ChunkWindow[] = buffer ? planChunks(buffer.duration) : [{ index: 0, start: 0, end: 0 }];
+    return {
+        buffer,
+        chunks: windows.map(window => ({ ...window, status: 'pending', segments: [] })),
+        keptRanges,
+    };
+};
+
+/** Transcribes one chunk and returns its segments in absolute recording time. */
+export const transcribeChunk = async (
+    file: Blob,
+    buffer: AudioBuffer | null,
+    chunk: ChunkWindow,
+    { provider, model, glossary, language, signal, onRetry, onUsage }: TranscriptionOptions,
+    onUploaded?: () => void,
+): Promise<TranscriptSegment[]> => {
+    // Without a decoded buffer the original file is sent as a single chunk.
+    const audio = buffer ? sliceToWav(buffer, chunk.start, chunk.end) : file;
+    const segments = await transcribeAudio(provider, audio, model, getVocabulary(glossary), onUploaded, { signal, onRetry, onUsage, language });
+    return offsetSegments(segments, chunk.start);
+};
+
+/**
+ * Stitches every finished chunk into one transcript with its speaker labels matched across
+ * chunks, maps it back onto the original recording's timeline when the audio was preprocessed,
+ * normalizes the speaker labels and applies the glossary corrections.
+ */
+export const mergeTranscribedChunks = (
+    chunks: ChunkState[],
+    glossary: GlossaryEntry[],
+    keptRanges: TimeRange[] | null = null,
+): TranscriptSegment[] => {
+    const merged = mergeChunkSegments(chunks, alignChunkSpeakers(chunks, chunks.map(chunk => chunk.status === 'done' ? chunk.segments : [])));
+    return applyGlossary(normalizeSpeakers(keptRanges ? remapSegments(merged, keptRanges) : merged), glossary);
+};
+
+/**
+ * Runs the whole pipeline for one file: decode, transcribe every chunk with bounded
+ * concurrency and merge. `onChunksChange` receives every chunk status update.
+ * Rejects if any chunk fails.
+ */
+export const transcribeFile = async (
+    file: Blob,
+    options: TranscriptionOptions & {
+        concurrency: number;
+        preprocess?: PreprocessOptions | null;
+        onChunksChange?: (chunks: ChunkState[]) => void;
+    },
+): Promise<TranscriptSegment[]> => {
+    const { buffer, chunks: initialChunks, keptRanges } = await prepareAudio(file, options.preprocess);
+    let chunks = initialChunks;
+    const update = (index: number, changes: Partial<ChunkState>) => {
+        chunks = chunks.map(chunk => chunk.index === index ? { ...chunk, ...changes } : chunk);
+        options.onChunksChange?.(chunks);
+    };
+    options.onChunksChange?.(chunks);
+
+    let firstError: unknown;
+    await runWithConcurrency(initialChunks, options.concurrency, async (chunk) => {
+        if (options.signal?.aborted) return;
+        update(chunk.index, { status: 'uploading' });
+        try {
+            const segments = await transcribeChunk(file, buffer, chunk, options, () => update(chunk.index, { status: 'transcribing' }));
+            update(chunk.index, { status: 'done', segments });
+        } catch (err) {
+            firstError ??= err;
+            update(chunk.index, { status: 'error', error: describeError(err) });
+        }
+    });
+
+    if (options.signal?.aborted || firstError !== undefined) {
+        throw classifyError(options.signal?.aborted ? new DOMException('The operation was aborted.', 'AbortError') : firstError);
+    }
+    return mergeTranscribedChunks(chunks, options.glossary, keptRanges);
+};
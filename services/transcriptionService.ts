@@ -0,0 +1,51 @@
+import { GlossaryEntry, TranscriptSegment } from '../types';
+import { TRANSCRIPTION_PROMPT } from '../constants';
+import { RetryOptions, withRetry } from '../utils/retry';
+import { languageName } from '../i18n';
+import { AppError } from './errors';
+import { AIProvider, CallOptions } from './providers';
+
+/** The correctly spelled glossary terms, without duplicates. */
+export const getVocabulary = (glossary: GlossaryEntry[]): string[] =>
+    [...new Set(glossary.map(entry => entry.replace.trim()).filter(Boolean))];
+
+/**
+ * Appends the spoken language, when known, and the glossary to the transcription prompt so the
+ * model neither translates nor misspells domain terms.
+ */
+export const buildTranscriptionPrompt = (vocabulary: string[], language?: string): string => {
+    let prompt = TRANSCRIPTION_PROMPT;
+    if (language) {
+        prompt += `\n\nThe recording is in ${languageName(language, 'en')}. Transcribe it in that language; do not translate it.`;
+    }
+    if (vocabulary.length > 0) {
+        prompt += `\n\nThe recording may contain the following terms. Always spell them exactly like this: ${vocabulary.join(', ')}.`;
+    }
+    return prompt;
+};
+
+/**
+ * Uploads an audio file and transcribes it into segments whose times are relative to the
+ * start of `file`. `onUploaded` fires once the upload is done. Upload and transcription are
+ * each retried on transient errors; `options.signal` cancels both. `options.language` is the
+ * spoken language, if known.
+ */
+export const transcribeAudio = async (
+    provider: AIProvider,
+    file: Blob,
+    model: string,
+    vocabulary: string[],
+    onUploaded?: () => void,
+    options: RetryOptions & Pick<CallOptions, 'onUsage'> & { language?: string } = {},
+): Promise<TranscriptSegment[]> => {
+    const { signal, onUsage, language } = options;
+    const media = await withRetry(() => provider.upload(file, { signal }), options);
+    onUploaded?.();
+
+    const request = { model, prompt: buildTranscriptionPrompt(vocabulary, language), vocabulary, language };
+    const segments = await withRetry(() => provider.transcribe(media, request, { signal, onUsage }), options);
+    if (segments.length === 0) {
+        throw new AppError('emptyResponse', "Could not get a transcription. The response was empty.");
+    }
+    return segments;
+};
@@ -0,0 +1,178 @@
+import { TranscriptSegment, TranscriptTranslation } from '../types';
+import { TRANSLATION_CONCURRENCY, TRANSLATION_SYSTEM_PROMPT } from '../constants';
+import { runWithConcurrency } from '../utils/concurrency';
+import { RetryOptions, withRetry } from '../utils/retry';
+import { estimateGenerationUsage, estimateTokens } from '../utils/usage';
+import { AppError, classifyError, isCancellation } from './errors';
+import { AIProvider, CallOptions, GenerateRequest, TokenUsage } from './providers';
+
+/** Characters of transcript text per request, so that every reply stays well within the output limit. */
+const BATCH_CHARACTERS = 6000;
+/** Follow-up requests for segments a reply left out, before the batch fails. */
+const MISSING_SEGMENT_RETRIES = 2;
+
+/** Splits the segments into consecutive batches of about `maxCharacters` of text; a segment is never split. */
+export const planTranslationBatches = (segments: TranscriptSegment[], maxCharacters = BATCH_CHARACTERS): TranscriptSegment[][] => {
+    const batches: TranscriptSegment[][] = [];
+    let current: TranscriptSegment[] = [];
+    let length = 0;
+    for (const segment of segments) {
+        if (current.length > 0 && length + segment.text.length > maxCharacters) {
+            batches.push(current);
+            current = [];
+            length = 0;
+        }
+        current.push(segment);
+        length += segment.text.length;
+    }
+    if (current.length > 0) batches.push(current);
+    return batches;
+};
+
+/** Asks for one batch in `language` (a language name, e.g. "Türkçe"). Speakers are sent as context only. */
+export const buildTranslationRequest = (batch: TranscriptSegment[], language: string, model: string): GenerateRequest => ({
+    model,
+    systemInstruction: TRANSLATION_SYSTEM_PROMPT,
+    contents: `Translate these segments into ${language}.\n\n${JSON.stringify({
+        segments: batch.map(({ id, speaker, text }) => ({ id, speaker, text })),
+    })}`,
+});
+
+/**
+ * Reads the translated texts of `batch` from a model reply, by segment id. Segments the reply
+ * leaves out are missing from the result; ids that are not in `batch` are ignored.
+ */
+export const parseTranslationResponse = (text: string, batch: TranscriptSegment[]): Map<number, string> => {
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    let data: unknown;
+    try {
+        data = start >= 0 && end > start ? JSON.parse(text.slice(start, end + 1)) : null;
+    } catch (err) {
+        throw new AppError('emptyResponse', "The translation could not be read from the response.", { cause: err });
+    }
+    const items = Array.isArray(data) ? data : (data as { segments?: unknown } | null)?.segments;
+    const ids = new Set(batch.map(segment => segment.id));
+    const texts = new Map<number, string>();
+    for (const item of Array.isArray(items) ? items : []) {
+        const { id, text: translated } = (item ?? {}) as Record<string, unknown>;
+        if (ids.has(Number(id)) && typeof translated === 'string' && translated.trim()) texts.set(Number(id), translated.trim());
+    }
+    return texts;
+};
+
+/** Estimates translating all `segments`; the translation is expected to be about as long as the original. */
+export const estimateTranslationUsage = (segments: TranscriptSegment[], language: string, model: string): TokenUsage =>
+    planTranslationBatches(segments)
+        .map(batch => estimateGenerationUsage(
+            buildTranslationRequest(batch, language, model),
+            estimateTokens(JSON.stringify(batch.map(({ id, text }) => ({ id, text })))),
+        ))
+        .reduce((total, usage) => ({
+            ...total,
+            inputTokens: total.inputTokens + usage.inputTokens,
+            outputTokens: total.outputTokens + usage.outputTokens,
+        }), { model, inputTokens: 0, audioInputTokens: 0, outputTokens: 0, audioSeconds: 0 });
+
+export interface TranslationOptions extends CallOptions {
+    /** Called after every finished batch. */
+    onProgress?: (done: number, total: number) => void;
+    onRetry?: RetryOptions['onRetry'];
+}
+
+/**
+ * Translates one batch. Segments a reply leaves out (or a reply that cannot be read) are asked for
+ * again on their own; if some are still missing the batch fails, so that no segment of a
+ * translation is silently left in the source language.
+ */
+const translateBatch = async (
+    provider: AIProvider,
+    batch: TranscriptSegment[],
+    language: string,
+    model: string,
+    { signal, onUsage, onRetry }: TranslationOptions,
+): Promise<TranscriptSegment[]> => {
+    const texts = new Map<number, string>();
+    let pending = batch;
+    let lastError: AppError | null = null;
+    for (let attempt = 0; attempt <= MISSING_SEGMENT_RETRIES && pending.length > 0; attempt++) {
+        const request = buildTranslationRequest(pending, language, model);
+        const reply = await withRetry(() => provider.generate(request, { signal, onUsage }), { signal, onRetry });
+        try {
+            parseTranslationResponse(reply, pending).forEach((text, id) => texts.set(id, text));
+        } catch (err) {
+            lastError = classifyError(err);
+        }
+        pending = pending.filter(segment => !texts.has(segment.id));
+    }
+    if (pending.length > 0) {
+        throw lastError && texts.size === 0
+            ? lastError
+            : new AppError('emptyResponse', `${pending.length} of ${batch.length} segments were not translated.`);
+    }
+    return batch.map(({ id, start, end, speaker }) => ({ id, start, end, speaker, text: texts.get(id) ?? '' }));
+};
+
+/**
+ * Translates the segments in batches, a few at a time. The first batch that fails stops the others
+ * and its error is thrown, so a translation is either complete or not returned at all.
+ */
+export const translateSegments = async (
+    provider: AIProvider,
+    segments: TranscriptSegment[],
+    language: string,
+    model: string,
+    { signal, onUsage, onProgress, onRetry }: TranslationOptions = {},
+): Promise<TranscriptSegment[]> => {
+    const batches = planTranslationBatches(segments);
+    const results: TranscriptSegment[][] = [];
+    // Aborted by the caller's signal or by the first failure.
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    let failure: AppError | null = null;
+    let done = 0;
+
+    try {
+        await runWithConcurrency(batches.map((batch, index) => ({ batch, index })), TRANSLATION_CONCURRENCY, async ({ batch, index }) => {
+            if (controller.signal.aborted) return;
+            try {
+                results[index] = await translateBatch(provider, batch, language, model, { signal: controller.signal, onUsage, onRetry });
+                onProgress?.(++done, batches.length);
+            } catch (err) {
+                if (!failure && !isCancellation(err)) failure = classifyError(err);
+                controller.abort();
+            }
+        });
+    } finally {
+        signal?.removeEventListener('abort', abort);
+    }
+
+    if (signal?.aborted) throw new AppError('cancelled', 'The operation was aborted.');
+    if (failure) throw failure;
+    return results.flat();
+};
+
+/**
+ * The translation with each segment's speaker taken from the transcript segment it translates,
+ * so that speakers renamed after translating carry through to the translation. Returns the
+ * same object when nothing changed.
+ */
+export const withCurrentSpeakers = (translation: TranscriptTranslation, segments: TranscriptSegment[]): TranscriptTranslation => {
+    const speakers = new Map(segments.map(segment => [segment.id, segment.speaker]));
+    if (translation.segments.every(segment => (speakers.get(segment.id) ?? segment.speaker) === segment.speaker)) return translation;
+    return {
+        ...translation,
+        segments: translation.segments.map(segment => {
+            const speaker = speakers.get(segment.id) ?? segment.speaker;
+            return speaker === segment.speaker ? segment : { ...segment, speaker };
+        }),
+    };
+};
+
+export const createTranslation = (language: string, segments: TranscriptSegment[], model: string): TranscriptTranslation => ({
+    language,
+    segments,
+    model,
+    createdAt: Date.now(),
+});
@@ -0,0 +1,66 @@
+import { ModelPrice, UsageEntry } from '../types';
+
+const USAGE_STORAGE_KEY = 'transcriber.usage';
+const PRICES_STORAGE_KEY = 'transcriber.modelPrices';
+/** Default models the user removed, so that they stay removed when the defaults are merged back in. */
+const REMOVED_PRICES_STORAGE_KEY = 'transcriber.removedModelPrices';
+const BUDGET_STORAGE_KEY = 'transcriber.budget';
+/** Older entries are dropped so the ledger never outgrows localStorage. */
+const MAX_USAGE_ENTRIES = 5000;
+
+/**
+ * List prices in USD at the time of writing; users can correct them in the usage panel.
+ * Local and demo models cost nothing.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-pro': { input: 1.25, audioInput: 1.25, output: 10, audioMinute: 0 },
+    'gemini-2.5-flash': { input: 0.30, audioInput: 1.00, output: 2.50, audioMinute: 0 },
+    'whisper-1': { input: 0, audioInput: 0, output: 0, audioMinute: 0.006 },
+    'gpt-4o-mini': { input: 0.15, audioInput: 0, output: 0.60, audioMinute: 0 },
+    'mock-transcriber': { input: 0, audioInput: 0, output: 0, audioMinute: 0 },
+    'mock-writer': { input: 0, audioInput: 0, output: 0, audioMinute: 0 },
+};
+
+export const loadUsage = (): UsageEntry[] => {
+    try {
+        const stored = localStorage.getItem(USAGE_STORAGE_KEY);
+        return stored ? JSON.parse(stored) : [];
+    } catch {
+        return [];
+    }
+};
+
+export const saveUsage = (entries: UsageEntry[]) => {
+    localStorage.setItem(USAGE_STORAGE_KEY, JSON.stringify(entries.slice(-MAX_USAGE_ENTRIES)));
+};
+
+/** Returns the default prices, minus the ones the user removed, overridden and extended by the user's own. */
+export const loadModelPrices = (): Record<string, ModelPrice> => {
+    try {
+        const stored = localStorage.getItem(PRICES_STORAGE_KEY);
+        const removed: string[] = JSON.parse(localStorage.getItem(REMOVED_PRICES_STORAGE_KEY) ?? '[]');
+        const defaults = Object.fromEntries(Object.entries(DEFAULT_MODEL_PRICES).filter(([model]) => !removed.includes(model)));
+        return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+    } catch {
+        return DEFAULT_MODEL_PRICES;
+    }
+};
+
+/** Saves the prices; default models missing from `prices` are remembered as removed. */
+export const saveModelPrices = (prices: Record<string, ModelPrice>) => {
+    localStorage.setItem(PRICES_STORAGE_KEY, JSON.stringify(prices));
+    const removed = Object.keys(DEFAULT_MODEL_PRICES).filter(model => !prices[model]);
+    if (removed.length > 0) localStorage.setItem(REMOVED_PRICES_STORAGE_KEY, JSON.stringify(removed));
+    else localStorage.removeItem(REMOVED_PRICES_STORAGE_KEY);
+};
+
+/** The soft spending limit in USD, or null when none is set. */
+export const loadBudget = (): number | null => {
+    const stored = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+    return stored > 0 ? stored : null;
+};
+
+export const saveBudget = (budget: number | null) => {
+    if (budget === null) localStorage.removeItem(BUDGET_STORAGE_KEY);
+    else localStorage.setItem(BUDGET_STORAGE_KEY, String(budget));
+};
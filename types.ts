@@ -0,0 +1,164 @@
+export interface TranscriptSegment {
+    id: number;
+    /** Start time in seconds from the beginning of the recording. */
+    start: number;
+    /** End time in seconds from the beginning of the recording. */
+    end: number;
+    speaker: string;
+    text: string;
+    /** The text as transcribed, present only once the segment has been edited. */
+    originalText?: string;
+}
+
+/** A term correction, e.g. "jay unit" -> "JUnit". */
+export interface GlossaryEntry {
+    id: string;
+    find: string;
+    replace: string;
+}
+
+export type ChunkStatus = 'pending' | 'uploading' | 'transcribing' | 'done' | 'error';
+
+export interface ChunkState {
+    index: number;
+    start: number;
+    end: number;
+    status: ChunkStatus;
+    segments: TranscriptSegment[];
+    error?: string;
+}
+
+export interface GeneratedLesson {
+    id: string;
+    /** The user's instructions or lesson title. */
+    prompt: string;
+    templateId?: string;
+    systemPrompt: string;
+    model: string;
+    content: string;
+    createdAt: number;
+}
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'model';
+    /** Markdown; model answers cite transcript passages by their "[MM:SS]" timestamps. */
+    text: string;
+    createdAt: number;
+}
+
+/** A question-and-answer conversation about one recording. */
+export interface ChatThread {
+    id: string;
+    title: string;
+    messages: ChatMessage[];
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * The transcript in another language. Segments keep the ids, times and speakers of the
+ * segments they translate, so both versions line up and export as subtitles the same way.
+ */
+export interface TranscriptTranslation {
+    /** Language code, e.g. "tr". */
+    language: string;
+    segments: TranscriptSegment[];
+    model: string;
+    createdAt: number;
+}
+
+/** A multiple-choice question with its answer key. */
+export interface QuizQuestion {
+    question: string;
+    options: string[];
+    /** Index of the correct option. */
+    answerIndex: number;
+    explanation?: string;
+}
+
+export interface Quiz {
+    id: string;
+    questions: QuizQuestion[];
+    model: string;
+    createdAt: number;
+}
+
+/** A transcribed recording together with everything generated from it, as stored in the library. */
+export interface LibrarySession {
+    id: string;
+    title: string;
+    fileName: string;
+    fileSize: number;
+    fileType: string;
+    providerId: string;
+    transcriptionModel: string;
+    segments: TranscriptSegment[];
+    lessons: GeneratedLesson[];
+    /** Missing on sessions saved before conversations were added. */
+    threads?: ChatThread[];
+    /** The latest quiz generated from the transcript, if any. */
+    quiz?: Quiz;
+    /** The latest translation of the transcript, if any. */
+    translation?: TranscriptTranslation;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/** A named prompt used to generate content (lessons, summaries, quizzes...) from a transcript. */
+export interface PromptTemplate {
+    id: string;
+    name: string;
+    systemPrompt: string;
+    /** Supports the {{transcript}}, {{instructions}} and {{language}} variables. */
+    userMessageTemplate: string;
+    /** Overrides the generation model from the provider settings when set. */
+    model: string;
+    outputLanguage: string;
+    builtIn?: boolean;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'error' | 'cancelled';
+export type BatchLessonStatus = 'running' | 'done' | 'error';
+
+/** One file in the batch queue. */
+export interface BatchJob {
+    id: string;
+    file: File;
+    status: BatchJobStatus;
+    /** Share of chunks transcribed, from 0 to 1. */
+    progress: number;
+    error?: string;
+    /** The library session holding the result once the job is done. */
+    sessionId?: string;
+    lessonStatus?: BatchLessonStatus;
+    lessonError?: string;
+}
+
+export type UsageOperation = 'transcription' | 'lesson' | 'quiz' | 'chat' | 'translation';
+
+/** The recorded token usage of one provider call. */
+export interface UsageEntry {
+    id: string;
+    /** The library session the call was made for, if any. */
+    sessionId?: string;
+    operation: UsageOperation;
+    providerId: string;
+    model: string;
+    inputTokens: number;
+    /** The part of `inputTokens` spent on audio. */
+    audioInputTokens: number;
+    outputTokens: number;
+    audioSeconds: number;
+    createdAt: number;
+}
+
+/** Prices of a model in USD: per million tokens, or per minute of audio for per-minute models. */
+export interface ModelPrice {
+    input: number;
+    audioInput: number;
+    output: number;
+    audioMinute: number;
+}
@@ -0,0 +1,116 @@
+/** Sample rate used for audio sent to the model; 16 kHz mono is plenty for speech. */
+export const SPEECH_SAMPLE_RATE = 16000;
+
+/**
+ * Decodes an audio file into an AudioBuffer resampled to `sampleRate`. Decoding at a low
+ * rate keeps memory usage manageable for recordings that are several hours long.
+ */
+export const decodeAudioFile = async (file: Blob, sampleRate = SPEECH_SAMPLE_RATE): Promise<AudioBuffer> => {
+    const arrayBuffer = await file.arrayBuffer();
+    // The length is irrelevant here; the context is only used for decoding.
+    const context = new OfflineAudioContext(1, 1, sampleRate);
+    return context.decodeAudioData(arrayBuffer);
+};
+
+/** Mixes all channels of `buffer` between `startSample` and `endSample` down to a single mono channel. */
+const downmix = (buffer: AudioBuffer, startSample: number, endSample: number): Float32Array => {
+    const length = Math.max(0, endSample - startSample);
+    const mono = new Float32Array(length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+        const data = buffer.getChannelData(channel);
+        for (let i = 0; i < length; i++) {
+            mono[i] += data[startSample + i];
+        }
+    }
+    if (buffer.numberOfChannels > 1) {
+        for (let i = 0; i < length; i++) {
+            mono[i] /= buffer.numberOfChannels;
+        }
+    }
+    return mono;
+};
+
+/** Encodes mono float samples as a 16-bit PCM WAV file. */
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+    const bytesPerSample = 2;
+    const dataSize = samples.length * bytesPerSample;
+    const buffer = new ArrayBuffer(44 + dataSize);
+    const view = new DataView(buffer);
+
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true); // fmt chunk size
+    view.setUint16(20, 1, true); // PCM
+    view.setUint16(22, 1, true); // mono
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * bytesPerSample, true);
+    view.setUint16(32, bytesPerSample, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    let offset = 44;
+    for (let i = 0; i < samples.length; i++, offset += bytesPerSample) {
+        const clamped = Math.max(-1, Math.min(1, samples[i]));
+        view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+    }
+
+    return new Blob([buffer], { type: 'audio/wav' });
+};
+
+/** Extracts the time window [start, end) (in seconds) of `buffer` as a mono WAV file. */
+export const sliceToWav = (buffer: AudioBuffer, start: number, end: number): Blob => {
+    const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+    const endSample = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+    return encodeWav(downmix(buffer, startSample, endSample), buffer.sampleRate);
+};
+
+/** Mixes the whole of `buffer` down to mono samples. */
+export const toMono = (buffer: AudioBuffer): Float32Array => downmix(buffer, 0, buffer.length);
+
+/**
+ * Builds a mono buffer containing only the given time ranges of `buffer`, back to back.
+ * This is how trimmed and silence-free audio is produced before it is cut into chunks.
+ */
+export const renderRanges = (buffer: AudioBuffer, ranges: { start: number; end: number }[]): AudioBuffer => {
+    const parts = ranges.map(range => downmix(
+        buffer,
+        Math.max(0, Math.floor(range.start * buffer.sampleRate)),
+        Math.min(buffer.length, Math.ceil(range.end * buffer.sampleRate)),
+    ));
+    const length = Math.max(1, parts.reduce((sum, part) => sum + part.length, 0));
+    const output = new AudioBuffer({ length, numberOfChannels: 1, sampleRate: buffer.sampleRate });
+    let offset = 0;
+    for (const part of parts) {
+        output.copyToChannel(part, 0, offset);
+        offset += part.length;
+    }
+    return output;
+};
+
+/**
+ * Reads the duration of an audio or video file from its metadata, which is much faster than
+ * decoding it. Rejects when the browser cannot read the format or the duration is unknown.
+ */
+export const readMediaDuration = (file: Blob): Promise<number> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    // A video element reads the metadata of audio-only files too.
+    const media = document.createElement('video');
+    const finish = (done: () => void) => {
+        URL.revokeObjectURL(url);
+        media.removeAttribute('src');
+        done();
+    };
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => finish(() => Number.isFinite(media.duration)
+        ? resolve(media.duration)
+        : reject(new Error('The media has no known duration.')));
+    media.onerror = () => finish(() => reject(media.error ?? new Error('Could not read the media metadata.')));
+    media.src = url;
+});
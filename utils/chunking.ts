@@ -0,0 +1,101 @@
+import { TranscriptSegment } from '../types';
+
+export interface ChunkWindow {
+    index: number;
+    /** Start of the window in seconds, including the leading overlap. */
+    start: number;
+    /** End of the window in seconds, including the trailing overlap. */
+    end: number;
+}
+
+/** Ten-minute windows keep each response comfortably below the model's output token limit. */
+export const DEFAULT_CHUNK_SECONDS = 10 * 60;
+export const DEFAULT_OVERLAP_SECONDS = 15;
+
+/**
+ * Splits a recording of `duration` seconds into windows of `chunkSeconds`, each extended by
+ * `overlapSeconds` into its neighbours so words cut at a boundary are heard in full at least once.
+ */
+export const planChunks = (
+    duration: number,
+    chunkSeconds = DEFAULT_CHUNK_SECONDS,
+    overlapSeconds = DEFAULT_OVERLAP_SECONDS,
+): ChunkWindow[] => {
+    if (duration <= 0) return [];
+    const count = Math.max(1, Math.ceil(duration / chunkSeconds));
+    const windows: ChunkWindow[] = [];
+    for (let index = 0; index < count; index++) {
+        const coreStart = index * chunkSeconds;
+        const coreEnd = Math.min(duration, coreStart + chunkSeconds);
+        windows.push({
+            index,
+            start: Math.max(0, coreStart - overlapSeconds),
+            end: Math.min(duration, coreEnd + overlapSeconds),
+        });
+    }
+    return windows;
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/** Seconds before the cut in which the later chunk's segments are still considered, to absorb timestamp drift. */
+const CUT_TOLERANCE_SECONDS = 5;
+/** Chunks rarely disagree on timestamps by more than this; segments further apart are never the same speech. */
+const DUPLICATE_WINDOW_SECONDS = 6;
+/** Shorter texts ("yes", "okay") only count as the same speech on an exact match. */
+const MIN_PARTIAL_MATCH_LENGTH = 12;
+
+/**
+ * Whether two segments from neighbouring chunks are the same stretch of speech, heard twice in
+ * their overlap: they start at about the same time and one text equals or contains the other.
+ */
+export const isSameSpeech = (a: TranscriptSegment, b: TranscriptSegment): boolean => {
+    if (Math.abs(a.start - b.start) > DUPLICATE_WINDOW_SECONDS) return false;
+    const text = normalizeText(a.text);
+    const other = normalizeText(b.text);
+    if (!text || !other) return false;
+    if (other === text) return true;
+    const [shorter, longer] = text.length < other.length ? [text, other] : [other, text];
+    return shorter.length >= MIN_PARTIAL_MATCH_LENGTH && longer.includes(shorter);
+};
+
+/**
+ * Stitches per-chunk segments (already offset to absolute time) into one transcript.
+ * Inside each overlap the cut is placed at its midpoint: the earlier chunk contributes the
+ * segments before it and the later chunk the segments after it. Because the two chunks rarely
+ * agree on exact timestamps, the later chunk may also contribute segments slightly before the
+ * cut; those are dropped when they repeat what the earlier chunk contributed in the same overlap.
+ * Repetitions within one chunk are real speech and always kept.
+ */
+export const mergeChunkSegments = (windows: ChunkWindow[], chunkSegments: TranscriptSegment[][]): TranscriptSegment[] => {
+    const merged: Omit<TranscriptSegment, 'id'>[] = [];
+    let previousContributed: TranscriptSegment[] = [];
+
+    windows.forEach((window, i) => {
+        const previous = windows[i - 1];
+        const next = windows[i + 1];
+        const lowerCut = previous ? (window.start + previous.end) / 2 - CUT_TOLERANCE_SECONDS : -Infinity;
+        const upperCut = next ? (next.start + window.end) / 2 : Infinity;
+        // Only the previous chunk's segments inside the shared overlap can be heard twice.
+        const overlapEnd = previous ? previous.end : -Infinity;
+        const candidates = previousContributed.filter(segment => segment.end > window.start - CUT_TOLERANCE_SECONDS);
+
+        const contributed: TranscriptSegment[] = [];
+        for (const segment of chunkSegments[i] ?? []) {
+            if (segment.start < lowerCut || segment.start >= upperCut) continue;
+            if (!normalizeText(segment.text)) continue;
+            if (segment.start < overlapEnd && candidates.some(candidate => isSameSpeech(segment, candidate))) continue;
+            contributed.push(segment);
+            merged.push({ start: segment.start, end: segment.end, speaker: segment.speaker, text: segment.text });
+        }
+        previousContributed = contributed;
+    });
+
+    return merged
+        .sort((a, b) => a.start - b.start)
+        .map((segment, id) => ({ ...segment, id }));
+};
+
+/** Shifts chunk-relative segment times to absolute recording time. */
+export const offsetSegments = (segments: TranscriptSegment[], offset: number): TranscriptSegment[] =>
+    segments.map(segment => ({ ...segment, start: segment.start + offset, end: segment.end + offset }));
@@ -0,0 +1,20 @@
+import { parseTimestamp } from './transcript';
+
+// A timestamp in square brackets, e.g. "[12:34]" or "[1:02:03]", that is not already a Markdown link.
+const CITATION = /\[((?:\d+:)?\d{1,2}:\d{2})\](?!\()/g;
+
+const CITATION_HREF_PREFIX = '#t=';
+
+/** Turns "[12:34]" citations into Markdown links whose target encodes the time in seconds. */
+export const linkCitations = (markdown: string): string =>
+    markdown.replace(CITATION, (match, timestamp: string) => {
+        const seconds = parseTimestamp(timestamp);
+        return seconds === null ? match : `[${timestamp}](${CITATION_HREF_PREFIX}${seconds})`;
+    });
+
+/** Returns the time a citation link points to, or null for ordinary links. */
+export const parseCitationHref = (href: string | undefined): number | null => {
+    if (!href?.startsWith(CITATION_HREF_PREFIX)) return null;
+    const seconds = Number(href.slice(CITATION_HREF_PREFIX.length));
+    return Number.isFinite(seconds) ? seconds : null;
+};
@@ -0,0 +1,19 @@
+/**
+ * Runs `worker` over `items` with at most `limit` calls in flight at once.
+ * Workers are expected to handle their own errors; a rejection stops that lane only.
+ */
+export const runWithConcurrency = async <T>(
+    items: T[],
+    limit: number,
+    worker: (item: T) => Promise<void>,
+): Promise<void> => {
+    let cursor = 0;
+    const lane = async () => {
+        while (cursor < items.length) {
+            const item = items[cursor++];
+            await worker(item);
+        }
+    };
+    const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, lane);
+    await Promise.allSettled(lanes);
+};
@@ -0,0 +1,14 @@
+import { ExportedFile } from './export';
+
+/** Triggers a browser download for an in-memory file. */
+export const downloadFile = ({ filename, mimeType, content }: ExportedFile) => {
+    const blob = new Blob([content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
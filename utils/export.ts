@@ -0,0 +1,222 @@
+import { QuizQuestion, TranscriptSegment } from '../types';
+import { listSpeakers } from './speakers';
+import { formatTimestamp, segmentsToText } from './transcript';
+
+export type ExportFormat = 'srt' | 'vtt' | 'txt' | 'md' | 'json';
+export type QuizExportFormat = 'gift' | 'json';
+
+export interface ExportedFile {
+    filename: string;
+    mimeType: string;
+    content: string;
+}
+
+export interface SessionExportData {
+    fileName: string;
+    fileSize?: number;
+    segments: TranscriptSegment[];
+    lessonPrompt?: string;
+    lesson?: string;
+    quiz?: QuizQuestion[];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+    srt: 'application/x-subrip',
+    vtt: 'text/vtt',
+    txt: 'text/plain',
+    md: 'text/markdown',
+    json: 'application/json',
+};
+
+/** Maximum characters per subtitle line and lines per cue, following common broadcast guidelines. */
+const MAX_LINE_LENGTH = 42;
+const MAX_LINES_PER_CUE = 2;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const splitTime = (totalSeconds: number) => {
+    const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+    return {
+        hours: Math.floor(totalMs / 3_600_000),
+        minutes: Math.floor((totalMs % 3_600_000) / 60_000),
+        seconds: Math.floor((totalMs % 60_000) / 1000),
+        milliseconds: totalMs % 1000,
+    };
+};
+
+/** Formats seconds as an SRT timecode, e.g. "01:02:03,456". */
+export const formatSrtTime = (totalSeconds: number): string => {
+    const { hours, minutes, seconds, milliseconds } = splitTime(totalSeconds);
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)},${pad(milliseconds, 3)}`;
+};
+
+/** Formats seconds as a WebVTT timecode, e.g. "01:02:03.456". */
+export const formatVttTime = (totalSeconds: number): string => {
+    const { hours, minutes, seconds, milliseconds } = splitTime(totalSeconds);
+    return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}.${pad(milliseconds, 3)}`;
+};
+
+/** Greedily wraps text into lines no longer than `maxLength`, never breaking inside a word. */
+export const wrapText = (text: string, maxLength = MAX_LINE_LENGTH): string[] => {
+    const words = text.split(/\s+/).filter(Boolean);
+    const lines: string[] = [];
+    let current = '';
+    for (const word of words) {
+        if (!current) {
+            current = word;
+        } else if (current.length + 1 + word.length <= maxLength) {
+            current += ` ${word}`;
+        } else {
+            lines.push(current);
+            current = word;
+        }
+    }
+    if (current) lines.push(current);
+    return lines;
+};
+
+interface Cue {
+    start: number;
+    end: number;
+    lines: string[];
+    speaker: string;
+}
+
+/** Subtitles only name speakers when there is more than one. */
+const hasSeveralSpeakers = (segments: TranscriptSegment[]) => listSpeakers(segments).length > 1;
+
+/**
+ * Turns segments into subtitle cues. Segments whose text does not fit into a single cue
+ * are split into several cues, with the segment's duration shared in proportion to text length.
+ * With `labelSpeakerChanges`, a segment whose speaker differs from the previous one starts
+ * with "Name:".
+ */
+export const buildCues = (segments: TranscriptSegment[], labelSpeakerChanges = false): Cue[] => {
+    const cues: Cue[] = [];
+    let previousSpeaker: string | null = null;
+    for (const segment of segments) {
+        const label = labelSpeakerChanges && segment.speaker !== previousSpeaker ? `${segment.speaker}: ` : '';
+        previousSpeaker = segment.speaker;
+        const lines = wrapText(`${label}${segment.text}`);
+        if (lines.length === 0) continue;
+
+        const groups: string[][] = [];
+        for (let i = 0; i < lines.length; i += MAX_LINES_PER_CUE) {
+            groups.push(lines.slice(i, i + MAX_LINES_PER_CUE));
+        }
+
+        const totalLength = groups.reduce((sum, group) => sum + group.join(' ').length, 0);
+        const duration = Math.max(0, segment.end - segment.start);
+        let cursor = segment.start;
+        groups.forEach((group, index) => {
+            const share = duration * (group.join(' ').length / totalLength);
+            const end = index === groups.length - 1 ? segment.end : cursor + share;
+            cues.push({ start: cursor, end, lines: group, speaker: segment.speaker });
+            cursor = end;
+        });
+    }
+    return cues;
+};
+
+export const toSrt = (segments: TranscriptSegment[]): string =>
+    buildCues(segments, hasSeveralSpeakers(segments))
+        .map((cue, index) => `${index + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(cue.end)}\n${cue.lines.join('\n')}\n`)
+        .join('\n');
+
+/** Escapes cue text, where "&", "<" and ">" would otherwise start markup or end the cue timing. */
+const escapeVtt = (text: string): string =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+/** WebVTT marks speakers with voice spans, e.g. "<v Ayşe>Hello". */
+export const toVtt = (segments: TranscriptSegment[]): string => {
+    const voices = hasSeveralSpeakers(segments);
+    const cues = buildCues(segments)
+        .map(cue => {
+            const text = escapeVtt(cue.lines.join('\n'));
+            return `${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${voices ? `<v ${cue.speaker.replace(/[<>&]/g, '')}>${text}` : text}\n`;
+        })
+        .join('\n');
+    return `WEBVTT\n\n${cues}`;
+};
+
+export const toPlainText = (segments: TranscriptSegment[]): string => `${segmentsToText(segments)}\n`;
+
+export const toMarkdown = (data: SessionExportData): string => {
+    const parts = [`# ${data.fileName}`, '', '## Transcript', ''];
+    for (const segment of data.segments) {
+        parts.push(`**[${formatTimestamp(segment.start)}] ${segment.speaker}:** ${segment.text}`, '');
+    }
+    if (data.lesson) {
+        parts.push('## Lesson', '');
+        if (data.lessonPrompt) parts.push(`> ${data.lessonPrompt.replace(/\n/g, '\n> ')}`, '');
+        parts.push(data.lesson.trim(), '');
+    }
+    return parts.join('\n');
+};
+
+export const toSessionJson = (data: SessionExportData, exportedAt: Date = new Date()): string =>
+    JSON.stringify({ ...data, exportedAt: exportedAt.toISOString() }, null, 2);
+
+/** Derives a download filename from the source file name, e.g. "lecture.mp3" -> "lecture.srt". */
+export const buildExportFilename = (sourceName: string, extension: string, suffix = ''): string => {
+    const base = sourceName.replace(/\.[^./\\]+$/, '').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'transcript';
+    return `${base}${suffix ? `-${suffix}` : ''}.${extension}`;
+};
+
+/** Builds the transcript export in the requested format; `suffix` marks variants such as a translation ("lecture-tr.srt"). */
+export const exportTranscript = (format: ExportFormat, data: SessionExportData, suffix = ''): ExportedFile => {
+    const contentByFormat: Record<ExportFormat, () => string> = {
+        srt: () => toSrt(data.segments),
+        vtt: () => toVtt(data.segments),
+        txt: () => toPlainText(data.segments),
+        md: () => toMarkdown(data),
+        json: () => toSessionJson(data),
+    };
+    return {
+        filename: buildExportFilename(data.fileName, format, suffix),
+        mimeType: MIME_TYPES[format],
+        content: contentByFormat[format](),
+    };
+};
+
+/** Builds the lesson export; the lesson is Markdown already, so "txt" and "md" share content. */
+export const exportLesson = (format: Extract<ExportFormat, 'txt' | 'md' | 'json'>, data: SessionExportData): ExportedFile => {
+    const lesson = data.lesson ?? '';
+    const content = format === 'json' ? toSessionJson(data) : `${lesson.trim()}\n`;
+    return {
+        filename: buildExportFilename(data.fileName, format, 'lesson'),
+        mimeType: MIME_TYPES[format],
+        content,
+    };
+};
+
+/** Escapes the characters that have a meaning in Moodle's GIFT format. */
+const escapeGift = (text: string): string =>
+    text.replace(/[~=#{}:\\]/g, character => `\\${character}`).replace(/\r?\n/g, '\\n');
+
+/**
+ * Formats questions in Moodle's GIFT format: "=" marks the correct option, "~" the others,
+ * and the explanation becomes the question's general feedback.
+ */
+export const toGift = (questions: QuizQuestion[], title: string): string =>
+    questions
+        .map((question, index) => {
+            const options = question.options.map((option, optionIndex) =>
+                `\t${optionIndex === question.answerIndex ? '=' : '~'}${escapeGift(option)}`);
+            const feedback = question.explanation ? [`\t####${escapeGift(question.explanation)}`] : [];
+            return [`::${escapeGift(`${title} - Q${index + 1}`)}:: ${escapeGift(question.question)} {`, ...options, ...feedback, '}'].join('\n');
+        })
+        .join('\n\n') + '\n';
+
+/** Builds the quiz export: GIFT for importing into Moodle, or JSON with the answer keys. */
+export const exportQuiz = (format: QuizExportFormat, data: SessionExportData): ExportedFile => {
+    const questions = data.quiz ?? [];
+    const title = data.fileName.replace(/\.[^./\\]+$/, '');
+    return {
+        filename: buildExportFilename(data.fileName, format, 'quiz'),
+        mimeType: format === 'gift' ? 'text/plain' : MIME_TYPES.json,
+        content: format === 'gift'
+            ? toGift(questions, title)
+            : JSON.stringify({ title, questions }, null, 2),
+    };
+};
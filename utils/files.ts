@@ -0,0 +1,45 @@
+const VIDEO_EXTENSIONS = /\.(mp4|m4v|mkv|webm|mov|ogv)$/i;
+
+/** Whether a file is a video; only its audio track is transcribed. */
+export const isVideoFile = (file: Blob): boolean =>
+    file.type.startsWith('video/') || (!file.type && file instanceof File && VIDEO_EXTENSIONS.test(file.name));
+
+/** Whether a file looks like something the transcriber can handle. */
+export const isMediaFile = (file: File): boolean =>
+    file.type.startsWith('audio/')
+    || isVideoFile(file)
+    || /\.(mp3|wav|m4a|aac|ogg|oga|opus|flac|weba|wma|aiff?)$/i.test(file.name)
+    || VIDEO_EXTENSIONS.test(file.name);
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject));
+    }
+    if (!entry.isDirectory) return Promise.resolve([]);
+
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    // readEntries returns results in batches and an empty batch at the end.
+    const readAll = async (collected: FileSystemEntry[] = []): Promise<FileSystemEntry[]> => {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+        return batch.length === 0 ? collected : readAll([...collected, ...batch]);
+    };
+    return readAll().then(async entries => (await Promise.all(entries.map(readEntry))).flat());
+};
+
+/**
+ * Collects the media files from a drop, descending into dropped folders.
+ * Files are sorted by path so that numbered recordings stay in order.
+ */
+export const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items ?? [])
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((entry): entry is FileSystemEntry => !!entry);
+
+    const files = entries.length > 0
+        ? (await Promise.all(entries.map(readEntry))).flat()
+        : Array.from(dataTransfer.files ?? []);
+    return sortFiles(files.filter(isMediaFile));
+};
+
+export const sortFiles = (files: File[]): File[] =>
+    [...files].sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name, undefined, { numeric: true }));
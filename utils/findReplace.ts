@@ -0,0 +1,51 @@
+import { GlossaryEntry, TranscriptSegment } from '../types';
+
+export interface SearchOptions {
+    regex: boolean;
+    wholeWord: boolean;
+    matchCase: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Builds a global RegExp for a find query. Whole-word matching uses Unicode-aware
+ * boundaries so that Turkish and other non-ASCII words are handled correctly.
+ * Throws a SyntaxError if `regex` is set and the query is not a valid expression.
+ */
+export const buildSearchRegex = (query: string, { regex, wholeWord, matchCase }: SearchOptions): RegExp => {
+    const source = regex ? query : escapeRegExp(query);
+    const bounded = wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source;
+    return new RegExp(bounded, `gu${matchCase ? '' : 'i'}`);
+};
+
+export const countMatches = (segments: TranscriptSegment[], pattern: RegExp): number =>
+    segments.reduce((count, segment) => count + (segment.text.match(pattern)?.length ?? 0), 0);
+
+/**
+ * Replaces every match in the segment texts. Changed segments remember their text from
+ * before the first edit in `originalText`, which is how edits are tracked.
+ */
+export const replaceInSegments = (segments: TranscriptSegment[], pattern: RegExp, replacement: string): TranscriptSegment[] =>
+    segments.map(segment => {
+        const text = segment.text.replace(pattern, replacement);
+        return text === segment.text ? segment : updateSegmentText(segment, text);
+    });
+
+/** Returns a copy of `segment` with new text, keeping track of the original wording. */
+export const updateSegmentText = (segment: TranscriptSegment, text: string): TranscriptSegment => {
+    const originalText = segment.originalText ?? segment.text;
+    return {
+        ...segment,
+        text,
+        originalText: text === originalText ? undefined : originalText,
+    };
+};
+
+/** Applies glossary corrections as whole-word, case-insensitive replacements. */
+export const applyGlossary = (segments: TranscriptSegment[], glossary: GlossaryEntry[]): TranscriptSegment[] =>
+    glossary.reduce((result, entry) => {
+        if (!entry.find.trim()) return result;
+        const pattern = buildSearchRegex(entry.find.trim(), { regex: false, wholeWord: true, matchCase: false });
+        return replaceInSegments(result, pattern, entry.replace.replace(/\$/g, '$$$$'));
+    }, segments);
@@ -0,0 +1,5 @@
+/** Returns a random unique id, falling back to a timestamp-based one where `crypto.randomUUID` is unavailable. */
+export const createId = (): string =>
+    typeof crypto !== 'undefined' && 'randomUUID' in crypto
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
@@ -0,0 +1,90 @@
+/** One numbered section of a generated lesson, e.g. "**II. Temel Kavramlar ve Tanımlar**". */
+export interface LessonSection {
+    /** The heading line exactly as the model wrote it, Markdown included. */
+    line: string;
+    /** The heading text without Markdown and numbering. */
+    heading: string;
+    body: string;
+}
+
+export interface StructuredLesson {
+    /** Everything before the first section, usually the lesson title. */
+    preamble: string;
+    sections: LessonSection[];
+}
+
+// The sections of the built-in lesson template, in Turkish and in the English glosses it adds.
+// Anchored, so that a title such as "Test Otomasyonuna Giriş" is not taken for a section.
+const SECTION_KEYWORDS = /^(?:giriş|temel kavramlar|detaylı anlatım|uzman görüşü|özet|introduction|core concepts|detailed explanation|expert insight|summary)/i;
+// Only Roman numerals, so that bold numbered steps ("**1. Adım**") inside a section stay part of it.
+const NUMBERING = /^[IVX]+[.)]\s+/;
+const NUMBERED_LINE = /^(\s*(?:#{1,6}\s+)?(?:\*\*|__)?\s*)[IVX]+([.)])/;
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X', 'XI', 'XII'];
+
+/** The text of a Markdown heading or of a line that is bold as a whole, or null for other lines. */
+const headingText = (line: string): string | null => {
+    const trimmed = line.trim();
+    const text = trimmed.match(/^#{1,6}\s+(.+)$/)?.[1] ?? trimmed.match(/^(?:\*\*|__)(.+?)(?:\*\*|__):?$/)?.[1];
+    return text ? text.replace(/^(?:\*\*|__)|(?:\*\*|__):?$/g, '').trim() : null;
+};
+
+/** The heading of a section line, or null when the line does not start a section. */
+const sectionHeading = (line: string): string | null => {
+    const text = headingText(line);
+    if (!text) return null;
+    return NUMBERING.test(text) || SECTION_KEYWORDS.test(text) ? text.replace(NUMBERING, '') : null;
+};
+
+/**
+ * Splits a lesson into its sections. Section headings are headings or bold lines that are
+ * numbered with Roman numerals ("III. ...") or start with the name of one of the built-in
+ * template's sections. Returns null when fewer than two sections are found, i.e. when the
+ * lesson does not follow a structure.
+ */
+export const parseLessonSections = (markdown: string): StructuredLesson | null => {
+    const preamble: string[] = [];
+    const sections: LessonSection[] = [];
+    for (const line of markdown.split('\n')) {
+        const heading = sectionHeading(line);
+        if (heading) {
+            sections.push({ line: line.trim(), heading, body: '' });
+        } else if (sections.length > 0) {
+            const section = sections[sections.length - 1];
+            section.body = section.body ? `${section.body}\n${line}` : line;
+        } else {
+            preamble.push(line);
+        }
+    }
+    if (sections.length < 2) return null;
+    return { preamble: preamble.join('\n').trim(), sections: sections.map(section => ({ ...section, body: section.body.trim() })) };
+};
+
+/** Renumbers a numbered section heading line for its position. */
+const renumber = (line: string, index: number): string =>
+    line.replace(NUMBERED_LINE, (_match, prefix: string, separator: string) =>
+        `${prefix}${ROMAN_NUMERALS[index] ?? index + 1}${separator}`);
+
+/** Joins a structured lesson back into Markdown, numbering the sections in their current order. */
+export const composeLesson = ({ preamble, sections }: StructuredLesson): string =>
+    [preamble, ...sections.map((section, index) => `${renumber(section.line, index)}\n${section.body}`)]
+        .filter(Boolean)
+        .join('\n\n');
+
+/** Removes a heading the model repeated at the top of a regenerated section. */
+export const stripLeadingHeading = (body: string): string => {
+    const [first, ...rest] = body.trimStart().split('\n');
+    return headingText(first ?? '') !== null ? rest.join('\n').trim() : body.trim();
+};
+
+/** Moves the section at `from` to `to`. */
+export const moveSection = (lesson: StructuredLesson, from: number, to: number): StructuredLesson => {
+    const sections = [...lesson.sections];
+    const [moved] = sections.splice(from, 1);
+    sections.splice(to, 0, moved);
+    return { ...lesson, sections };
+};
+
+export const replaceSectionBody = (lesson: StructuredLesson, index: number, body: string): StructuredLesson => ({
+    ...lesson,
+    sections: lesson.sections.map((section, i) => i === index ? { ...section, body } : section),
+});
@@ -0,0 +1,148 @@
+import { TranscriptSegment } from '../types';
+import { SPEECH_SAMPLE_RATE } from './audio';
+
+export interface PreprocessOptions {
+    /** Seconds cut from the beginning of the recording. */
+    trimStart: number;
+    /** End of the kept part in seconds; null keeps everything up to the end. */
+    trimEnd: number | null;
+    removeSilence: boolean;
+    /** Level below which audio counts as silence, in dBFS. */
+    silenceThresholdDb: number;
+    /** Shorter pauses are kept so that speech keeps its natural rhythm. */
+    minSilenceSeconds: number;
+    /** Sample rate of the mono audio that is uploaded. */
+    sampleRate: number;
+}
+
+export const DEFAULT_PREPROCESS_OPTIONS: PreprocessOptions = {
+    trimStart: 0,
+    trimEnd: null,
+    removeSilence: true,
+    silenceThresholdDb: -45,
+    minSilenceSeconds: 2,
+    sampleRate: SPEECH_SAMPLE_RATE,
+};
+
+export const PREPROCESS_SAMPLE_RATES = [8000, 12000, 16000, 24000];
+
+/** A time range in seconds. */
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+/** Length of the frames whose loudness is measured when looking for silence. */
+const FRAME_SECONDS = 0.02;
+/** Silence kept on each side of a removed pause, so word onsets and endings are not clipped. */
+const SILENCE_PADDING_SECONDS = 0.25;
+
+/**
+ * Finds the pauses in mono `samples` that stay below `thresholdDb` for at least `minSeconds`,
+ * measured as the RMS level of short frames.
+ */
+export const detectSilences = (
+    samples: Float32Array,
+    sampleRate: number,
+    thresholdDb: number,
+    minSeconds: number,
+): TimeRange[] => {
+    const frameLength = Math.max(1, Math.round(FRAME_SECONDS * sampleRate));
+    const threshold = 10 ** (thresholdDb / 20);
+    const silences: TimeRange[] = [];
+    let silenceStart: number | null = null;
+
+    const close = (endSample: number) => {
+        if (silenceStart === null) return;
+        const start = silenceStart / sampleRate;
+        const end = endSample / sampleRate;
+        if (end - start >= minSeconds) silences.push({ start, end });
+        silenceStart = null;
+    };
+
+    for (let offset = 0; offset < samples.length; offset += frameLength) {
+        const end = Math.min(samples.length, offset + frameLength);
+        let sum = 0;
+        for (let i = offset; i < end; i++) sum += samples[i] * samples[i];
+        const rms = Math.sqrt(sum / (end - offset));
+        if (rms < threshold) {
+            if (silenceStart === null) silenceStart = offset;
+        } else {
+            close(offset);
+        }
+    }
+    close(samples.length);
+    return silences;
+};
+
+/**
+ * The parts of a recording that are uploaded: the trim window minus the detected silences,
+ * each shrunk by a little padding. The processed audio is these ranges played back to back.
+ */
+export const planKeptRanges = (duration: number, options: PreprocessOptions, silences: TimeRange[] = []): TimeRange[] => {
+    const windowStart = Math.max(0, Math.min(duration, options.trimStart));
+    const windowEnd = Math.max(windowStart, Math.min(duration, options.trimEnd ?? duration));
+    const ranges: TimeRange[] = [];
+    let cursor = windowStart;
+
+    if (options.removeSilence) {
+        for (const silence of silences) {
+            const cutStart = Math.max(cursor, silence.start + SILENCE_PADDING_SECONDS);
+            const cutEnd = Math.min(windowEnd, silence.end - SILENCE_PADDING_SECONDS);
+            if (cutEnd <= cutStart) continue;
+            if (cutStart > cursor) ranges.push({ start: cursor, end: cutStart });
+            cursor = cutEnd;
+        }
+    }
+    if (windowEnd > cursor) ranges.push({ start: cursor, end: windowEnd });
+    return ranges;
+};
+
+export const totalDuration = (ranges: TimeRange[]): number =>
+    ranges.reduce((sum, range) => sum + (range.end - range.start), 0);
+
+/**
+ * Maps a time in the processed audio back to the original recording. A time exactly on the
+ * seam between two kept ranges belongs to the later range for starts and the earlier one for ends.
+ */
+export const toOriginalTime = (ranges: TimeRange[], time: number, edge: 'start' | 'end' = 'start'): number => {
+    let processedStart = 0;
+    for (let i = 0; i < ranges.length; i++) {
+        const range = ranges[i];
+        const length = range.end - range.start;
+        const isLast = i === ranges.length - 1;
+        if (time < processedStart + length || (edge === 'end' && time === processedStart + length) || isLast) {
+            return range.start + Math.min(length, Math.max(0, time - processedStart));
+        }
+        processedStart += length;
+    }
+    return time;
+};
+
+/** Moves segment times from the processed audio back onto the original recording's timeline. */
+export const remapSegments = (segments: TranscriptSegment[], ranges: TimeRange[]): TranscriptSegment[] =>
+    segments.map(segment => {
+        const start = toOriginalTime(ranges, segment.start, 'start');
+        return { ...segment, start, end: Math.max(start, toOriginalTime(ranges, segment.end, 'end')) };
+    });
+
+/** Size of the 16-bit mono WAV audio that is uploaded for `seconds` of processed audio. */
+export const estimateUploadSize = (seconds: number, sampleRate: number): number =>
+    Math.round(44 + seconds * sampleRate * 2);
+
+/** Reduces samples to `buckets` peak levels (0 to 1) for drawing a waveform. */
+export const computePeaks = (samples: Float32Array, buckets: number): number[] => {
+    const peaks = new Array<number>(buckets).fill(0);
+    const bucketSize = samples.length / buckets;
+    for (let bucket = 0; bucket < buckets; bucket++) {
+        const start = Math.floor(bucket * bucketSize);
+        const end = Math.min(samples.length, Math.floor((bucket + 1) * bucketSize));
+        let peak = 0;
+        for (let i = start; i < end; i++) {
+            const value = Math.abs(samples[i]);
+            if (value > peak) peak = value;
+        }
+        peaks[bucket] = Math.min(1, peak);
+    }
+    return peaks;
+};
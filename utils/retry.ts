@@ -0,0 +1,50 @@
+import { AppError, classifyError } from '../services/errors';
+
+export interface RetryOptions {
+    /** Attempts after the first one. */
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (error: AppError, attempt: number, delayMs: number) => void;
+}
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+    new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new AppError('cancelled', 'The operation was aborted.'));
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AppError('cancelled', 'The operation was aborted.'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+/**
+ * Calls `fn` until it succeeds, retrying transient failures (rate limits, 5xx, network drops)
+ * with exponential backoff and full jitter. Other errors are rethrown immediately as AppErrors.
+ */
+export const withRetry = async <T>(
+    fn: (attempt: number) => Promise<T>,
+    { retries = 3, baseDelayMs = 2000, maxDelayMs = 30000, signal, onRetry }: RetryOptions = {},
+): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await fn(attempt);
+        } catch (err) {
+            const error = signal?.aborted ? new AppError('cancelled', 'The operation was aborted.', { cause: err }) : classifyError(err);
+            if (!error.retryable || attempt >= retries) throw error;
+
+            const delayMs = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            onRetry?.(error, attempt + 1, delayMs);
+            await sleep(delayMs, signal);
+        }
+    }
+};
@@ -0,0 +1,159 @@
+import { TranscriptSegment } from '../types';
+import { ChunkWindow, isSameSpeech } from './chunking';
+
+export interface SpeakerStats {
+    name: string;
+    segmentCount: number;
+    wordCount: number;
+    /** Total seconds of speech attributed to the speaker. */
+    talkTime: number;
+    /** Share of the total talk time, from 0 to 1. */
+    share: number;
+    /** Start of the speaker's first segment. */
+    firstSeen: number;
+}
+
+// Generic labels such as "Speaker 1", "SPEAKER_00", "Speaker B", "Konuşmacı 2" or "S1".
+const GENERIC_LABEL = /^(?:(?:speaker|spk|voice|konuşmacı)[\s_.-]*([a-z]|\d+)?|s[\s_.-]*(\d+))$/iu;
+
+/**
+ * Returns a key identifying the speaker behind a label, so that "Speaker 1", "speaker 01" and
+ * "SPEAKER_1" count as the same person. Letters are keyed by their position in the alphabet.
+ */
+const speakerKey = (label: string): string => {
+    const match = label.trim().match(GENERIC_LABEL);
+    if (!match) return `name:${label.trim().replace(/\s+/g, ' ').toLocaleLowerCase()}`;
+    const id = match[1] ?? match[2];
+    if (id === undefined) return 'generic:';
+    return `generic:${/\d/.test(id) ? parseInt(id, 10) : id.toLowerCase().charCodeAt(0) - 96}`;
+};
+
+const genericNumber = (key: string): number => Number(key.slice('generic:'.length)) || 0;
+
+/**
+ * Matches speaker labels across separately diarized chunks. Every chunk numbers its speakers
+ * by who talks first in it, so "Speaker 1" of one chunk need not be "Speaker 1" of the next.
+ * Segments heard in both chunks of an overlap tell which label of the later chunk belongs to
+ * which speaker of the earlier one; generic labels of the later chunk are renamed accordingly,
+ * one to one, by most shared segments. Generic labels without a match become new speakers.
+ * A chunk whose overlap gives no evidence at all (e.g. the previous chunk failed) is left as is.
+ * Named labels are kept: names already identify a person across chunks.
+ */
+export const alignChunkSpeakers = (windows: ChunkWindow[], chunkSegments: TranscriptSegment[][]): TranscriptSegment[][] => {
+    const aligned: TranscriptSegment[][] = [];
+    let highestNumber = 0;
+    const noteNumbers = (segments: TranscriptSegment[]) => {
+        for (const segment of segments) {
+            const key = speakerKey(segment.speaker);
+            if (key.startsWith('generic:')) highestNumber = Math.max(highestNumber, genericNumber(key));
+        }
+    };
+
+    windows.forEach((window, i) => {
+        const segments = chunkSegments[i] ?? [];
+        const previous = windows[i - 1];
+        if (!previous) {
+            aligned.push(segments);
+            noteNumbers(segments);
+            return;
+        }
+
+        // votes: later chunk's generic label key -> earlier chunk's (already aligned) label -> shared segments
+        const votes = new Map<string, Map<string, number>>();
+        const earlier = (aligned[i - 1] ?? []).filter(segment => segment.end > window.start);
+        for (const segment of segments) {
+            if (segment.start >= previous.end) continue;
+            const key = speakerKey(segment.speaker);
+            if (!key.startsWith('generic:')) continue;
+            const match = earlier.find(candidate => isSameSpeech(segment, candidate));
+            if (!match) continue;
+            const counts = votes.get(key) ?? new Map<string, number>();
+            counts.set(match.speaker, (counts.get(match.speaker) ?? 0) + 1);
+            votes.set(key, counts);
+        }
+        if (votes.size === 0) {
+            aligned.push(segments);
+            noteNumbers(segments);
+            return;
+        }
+
+        const pairs = [...votes].flatMap(([key, counts]) => [...counts].map(([label, count]) => ({ key, label, count })));
+        pairs.sort((a, b) => b.count - a.count);
+        const labels = new Map<string, string>();
+        const taken = new Set<string>();
+        for (const { key, label } of pairs) {
+            if (labels.has(key) || taken.has(label)) continue;
+            labels.set(key, label);
+            taken.add(label);
+        }
+        const relabelled = segments.map(segment => {
+            const key = speakerKey(segment.speaker);
+            if (!key.startsWith('generic:')) return segment;
+            let label = labels.get(key);
+            if (label === undefined) {
+                label = `Speaker ${++highestNumber}`;
+                labels.set(key, label);
+            }
+            return label === segment.speaker ? segment : { ...segment, speaker: label };
+        });
+        aligned.push(relabelled);
+        noteNumbers(relabelled);
+    });
+    return aligned;
+};
+
+/**
+ * Normalizes the speaker labels of a transcript: generic labels are renumbered "Speaker 1",
+ * "Speaker 2"... in order of first appearance, and spelling variants of a name are unified
+ * to the first one seen. Segments must be sorted by start time.
+ */
+export const normalizeSpeakers = (segments: TranscriptSegment[]): TranscriptSegment[] => {
+    const names = new Map<string, string>();
+    let genericCount = 0;
+    return segments.map(segment => {
+        const key = speakerKey(segment.speaker);
+        let name = names.get(key);
+        if (name === undefined) {
+            name = key.startsWith('generic:') ? `Speaker ${++genericCount}` : segment.speaker.trim().replace(/\s+/g, ' ');
+            names.set(key, name);
+        }
+        return name === segment.speaker ? segment : { ...segment, speaker: name };
+    });
+};
+
+/** The distinct speakers of a transcript, in order of first appearance. */
+export const listSpeakers = (segments: TranscriptSegment[]): string[] => [...new Set(segments.map(segment => segment.speaker))];
+
+/**
+ * Renames a speaker in every segment. Renaming to the name of another speaker merges the two,
+ * which is how a speaker split into two labels is repaired.
+ */
+export const renameSpeaker = (segments: TranscriptSegment[], from: string, to: string): TranscriptSegment[] => {
+    const name = to.trim().replace(/\s+/g, ' ');
+    if (!name || name === from) return segments;
+    return segments.map(segment => segment.speaker === from ? { ...segment, speaker: name } : segment);
+};
+
+/** Talk time statistics per speaker, sorted by talk time, longest first. */
+export const getSpeakerStats = (segments: TranscriptSegment[]): SpeakerStats[] => {
+    const stats = new Map<string, SpeakerStats>();
+    for (const segment of segments) {
+        const entry = stats.get(segment.speaker) ?? {
+            name: segment.speaker,
+            segmentCount: 0,
+            wordCount: 0,
+            talkTime: 0,
+            share: 0,
+            firstSeen: segment.start,
+        };
+        entry.segmentCount++;
+        entry.wordCount += segment.text.split(/\s+/).filter(Boolean).length;
+        entry.talkTime += Math.max(0, segment.end - segment.start);
+        stats.set(segment.speaker, entry);
+    }
+
+    const total = [...stats.values()].reduce((sum, entry) => sum + entry.talkTime, 0);
+    return [...stats.values()]
+        .map(entry => ({ ...entry, share: total > 0 ? entry.talkTime / total : 0 }))
+        .sort((a, b) => b.talkTime - a.talkTime || a.firstSeen - b.firstSeen);
+};
@@ -0,0 +1,12 @@
+export interface TemplateVariables {
+    transcript: string;
+    instructions: string;
+    language: string;
+}
+
+/** Replaces {{name}} placeholders with their values; unknown placeholders are left as they are. */
+export const renderTemplate = (template: string, variables: TemplateVariables): string =>
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+        Object.prototype.hasOwnProperty.call(variables, name)
+            ? variables[name as keyof TemplateVariables]
+            : placeholder);
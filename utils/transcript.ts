@@ -0,0 +1,149 @@
+import { TranscriptSegment } from '../types';
+
+/**
+ * Converts a timestamp given as seconds or as a "HH:MM:SS(.mmm)" / "MM:SS" string into seconds.
+ * Returns null when the value cannot be interpreted.
+ */
+export const parseTimestamp = (value: unknown): number | null => {
+    if (typeof value === 'number') {
+        return Number.isFinite(value) && value >= 0 ? value : null;
+    }
+    if (typeof value !== 'string') return null;
+
+    const trimmed = value.trim().replace(',', '.');
+    if (/^\d+(\.\d+)?$/.test(trimmed)) return parseFloat(trimmed);
+
+    const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2}(?:\.\d+)?)$/);
+    if (!match) return null;
+    const [, hours, minutes, seconds] = match;
+    return (hours ? parseInt(hours, 10) * 3600 : 0) + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+};
+
+/** Formats seconds as "MM:SS", or "H:MM:SS" once the recording passes the hour mark. */
+export const formatTimestamp = (totalSeconds: number): string => {
+    const safe = Math.max(0, Math.floor(totalSeconds));
+    const hours = Math.floor(safe / 3600);
+    const minutes = Math.floor((safe % 3600) / 60);
+    const seconds = safe % 60;
+    const mm = String(minutes).padStart(2, '0');
+    const ss = String(seconds).padStart(2, '0');
+    return hours > 0 ? `${hours}:${mm}:${ss}` : `${mm}:${ss}`;
+};
+
+const DEFAULT_SPEAKER = 'Speaker';
+
+interface RawSegment {
+    start?: unknown;
+    end?: unknown;
+    speaker?: unknown;
+    text?: unknown;
+}
+
+/**
+ * Validates a list of raw segment objects, dropping empty entries and repairing
+ * missing or inverted times so that segments are ordered and non-negative.
+ */
+const normalizeSegments = (raw: RawSegment[]): TranscriptSegment[] => {
+    const segments: TranscriptSegment[] = [];
+    for (const item of raw) {
+        if (!item || typeof item !== 'object') continue;
+        const text = typeof item.text === 'string' ? item.text.trim() : '';
+        if (!text) continue;
+
+        const previousEnd = segments.length > 0 ? segments[segments.length - 1].end : 0;
+        const start = parseTimestamp(item.start) ?? previousEnd;
+        const parsedEnd = parseTimestamp(item.end);
+        const end = parsedEnd !== null && parsedEnd >= start ? parsedEnd : start;
+        const speaker = typeof item.speaker === 'string' && item.speaker.trim() ? item.speaker.trim() : DEFAULT_SPEAKER;
+
+        segments.push({ id: segments.length, start, end, speaker, text });
+    }
+    return segments;
+};
+
+const extractJson = (text: string): unknown => {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidate = (fenced ? fenced[1] : text).trim();
+    try {
+        return JSON.parse(candidate);
+    } catch {
+        return undefined;
+    }
+};
+
+// Matches lines such as "[00:01:23] Speaker 1: Hello" or "00:01:23 - 00:01:30 Speaker 1: Hello".
+const TIMESTAMPED_LINE = /^\[?((?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d+)?)\]?(?:\s*[-–]\s*\[?((?:\d+:)?\d{1,2}:\d{1,2}(?:[.,]\d+)?)\]?)?\s*(?:([^:]{1,40}):\s+)?(.*)$/;
+
+const parsePlainText = (text: string): TranscriptSegment[] => {
+    const raw: RawSegment[] = [];
+    const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+    for (const line of lines) {
+        const match = line.match(TIMESTAMPED_LINE);
+        if (match) {
+            const [, start, end, speaker, body] = match;
+            raw.push({ start, end, speaker, text: body });
+        } else if (raw.length > 0) {
+            // Continuation of the previous timestamped line.
+            raw[raw.length - 1].text = `${raw[raw.length - 1].text} ${line}`;
+        } else {
+            raw.push({ text: line });
+        }
+    }
+
+    const segments = normalizeSegments(raw);
+    // Close each segment at the start of the next one when the model gave no explicit end.
+    for (let i = 0; i < segments.length - 1; i++) {
+        if (segments[i].end === segments[i].start && segments[i + 1].start > segments[i].start) {
+            segments[i].end = segments[i + 1].start;
+        }
+    }
+    return segments;
+};
+
+/**
+ * Parses a transcription response into segments. Well-formed JSON (either an array of
+ * segments or an object with a `segments` array) is preferred; anything else falls back
+ * to line-based parsing so that a malformed response still yields a usable transcript.
+ */
+export const parseTranscriptResponse = (text: string): TranscriptSegment[] => {
+    if (!text.trim()) return [];
+
+    const json = extractJson(text);
+    const rawSegments = Array.isArray(json)
+        ? json
+        : json && typeof json === 'object' && Array.isArray((json as { segments?: unknown }).segments)
+            ? (json as { segments: unknown[] }).segments
+            : null;
+
+    if (rawSegments) {
+        const segments = normalizeSegments(rawSegments as RawSegment[]);
+        if (segments.length > 0) return segments;
+    }
+
+    return parsePlainText(text);
+};
+
+/** Renders segments as readable plain text, one "[MM:SS] Speaker: text" line per segment. */
+export const segmentsToText = (segments: TranscriptSegment[]): string =>
+    segments.map(segment => `[${formatTimestamp(segment.start)}] ${segment.speaker}: ${segment.text}`).join('\n');
+
+/**
+ * Returns the index of the segment playing at `time`: the last segment starting at or before it.
+ * Segments must be sorted by start time. Returns -1 before the first segment.
+ */
+export const findActiveSegmentIndex = (segments: TranscriptSegment[], time: number): number => {
+    let low = 0;
+    let high = segments.length - 1;
+    let result = -1;
+    while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (segments[mid].start <= time) {
+            result = mid;
+            low = mid + 1;
+        } else {
+            high = mid - 1;
+        }
+    }
+    return result;
+};
@@ -0,0 +1,111 @@
+import { ModelPrice, UsageEntry } from '../types';
+import type { GenerateRequest, TokenUsage } from '../services/providers';
+import { Locale, translate } from '../i18n';
+
+/** Gemini bills audio input at a fixed rate of 32 tokens per second. */
+export const AUDIO_TOKENS_PER_SECOND = 32;
+/** Rough size of a JSON transcript per second of speech, timestamps and speakers included. */
+const TRANSCRIPT_TOKENS_PER_SECOND = 8;
+/** Rough size of one answer, used when estimating a request before it is sent. */
+export const EXPECTED_OUTPUT_TOKENS = { lesson: 3000, section: 800, quizQuestion: 150, chat: 500 };
+
+/** Approximates the token count of text; about four characters per token for most languages. */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/** All the text sent with a request, for estimating its input tokens. */
+export const requestText = ({ contents, systemInstruction }: GenerateRequest): string => [
+    systemInstruction ?? '',
+    ...(typeof contents === 'string' ? [contents] : contents.map(turn => turn.text)),
+].join('\n');
+
+/** Estimates the usage of transcribing `seconds` of audio sent as `chunkCount` requests with `prompt`. */
+export const estimateTranscriptionUsage = (seconds: number, model: string, prompt: string, chunkCount: number): TokenUsage => {
+    const audioInputTokens = Math.round(seconds * AUDIO_TOKENS_PER_SECOND);
+    return {
+        model,
+        inputTokens: audioInputTokens + estimateTokens(prompt) * Math.max(1, chunkCount),
+        audioInputTokens,
+        outputTokens: Math.round(seconds * TRANSCRIPT_TOKENS_PER_SECOND),
+        audioSeconds: seconds,
+    };
+};
+
+export const estimateGenerationUsage = (request: GenerateRequest, outputTokens: number): TokenUsage => ({
+    model: request.model,
+    inputTokens: estimateTokens(requestText(request)),
+    audioInputTokens: 0,
+    outputTokens,
+    audioSeconds: 0,
+});
+
+/**
+ * Finds the price of `model`. Versioned names such as "gemini-2.5-flash-preview-05-20"
+ * fall back to the longest priced name they start with.
+ */
+export const findModelPrice = (prices: Record<string, ModelPrice>, model: string): ModelPrice | undefined =>
+    prices[model] ?? Object.keys(prices)
+        .filter(name => model.startsWith(name))
+        .sort((a, b) => b.length - a.length)
+        .map(name => prices[name])[0];
+
+/** The cost of `usage` in USD, or null when the model has no price. */
+export const computeCost = (usage: TokenUsage, prices: Record<string, ModelPrice>): number | null => {
+    const price = findModelPrice(prices, usage.model);
+    if (!price) return null;
+    const textInputTokens = Math.max(0, usage.inputTokens - usage.audioInputTokens);
+    return (textInputTokens * price.input
+        + usage.audioInputTokens * price.audioInput
+        + usage.outputTokens * price.output) / 1_000_000
+        + (usage.audioSeconds / 60) * price.audioMinute;
+};
+
+export interface UsageTotals {
+    calls: number;
+    inputTokens: number;
+    outputTokens: number;
+    audioSeconds: number;
+    cost: number;
+    /** Calls whose model has no price; they are left out of `cost`. */
+    unpricedCalls: number;
+}
+
+export const summarizeUsage = (entries: UsageEntry[], prices: Record<string, ModelPrice>): UsageTotals =>
+    entries.reduce<UsageTotals>((totals, entry) => {
+        const cost = computeCost(entry, prices);
+        return {
+            calls: totals.calls + 1,
+            inputTokens: totals.inputTokens + entry.inputTokens,
+            outputTokens: totals.outputTokens + entry.outputTokens,
+            audioSeconds: totals.audioSeconds + entry.audioSeconds,
+            cost: totals.cost + (cost ?? 0),
+            unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0),
+        };
+    }, { calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, cost: 0, unpricedCalls: 0 });
+
+/** Groups entries by `keyOf`, keeping the order in which the keys first appear. */
+export const groupUsage = (entries: UsageEntry[], keyOf: (entry: UsageEntry) => string): Map<string, UsageEntry[]> => {
+    const groups = new Map<string, UsageEntry[]>();
+    for (const entry of entries) {
+        const key = keyOf(entry);
+        const group = groups.get(key);
+        if (group) group.push(entry);
+        else groups.set(key, [entry]);
+    }
+    return groups;
+};
+
+export const formatTokens = (tokens: number): string =>
+    tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(2)}M`
+        : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k`
+            : String(tokens);
+
+/** Formats USD with enough precision to show the cost of a single short call. */
+export const formatCost = (usd: number): string =>
+    `$${usd > 0 && usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+/** Describes an estimate as "~12.3k tokens · ~$0.0400", leaving out the cost when the model has no price. */
+export const formatUsageEstimate = (usage: TokenUsage, prices: Record<string, ModelPrice>, locale: Locale): string => {
+    const cost = computeCost(usage, prices);
+    const tokens = translate(locale, 'usage.estimate', { tokens: formatTokens(usage.inputTokens + usage.outputTokens) });
+    return cost === null ? tokens : `${tokens} · ~${formatCost(cost)}`;
+};
@@ -1,23 +1,18 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
-    return {
-      server: {
+// No API keys are injected into the bundle: the Gemini key is entered in the app at runtime
+// or held by the proxy server in server/proxy.mjs.
+export default defineConfig({
+    server: {
         port: 3000,
         host: '0.0.0.0',
-      },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
-      resolve: {
+    },
+    plugins: [react()],
+    resolve: {
         alias: {
-          '@': path.resolve(__dirname, '.'),
+            '@': path.resolve(__dirname, '.'),
         }
-      }
-    };
+    }
 });